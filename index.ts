@@ -6,15 +6,25 @@ export { Key } from './src/model/relations/Key.js';
 export { Alert } from './src/application/Alert.js';
 export { SQLRest } from './src/database/SQLRest.js';
 export { RecordState } from './src/model/Record.js';
-export { Connection } from './src/public/Connection.js';
+export { Connection, HTTPResponse } from './src/public/Connection.js';
+export { Transport } from './src/public/Transport.js';
+export { Interceptor, HTTPRequest } from './src/public/Interceptor.js';
 export { QueryTable } from './src/database/QueryTable.js';
+export { ProcedureTable } from './src/database/ProcedureTable.js';
 export { Step as SQLStep } from './src/database/Connection.js';
 export { DatabaseTable } from './src/database/DatabaseTable.js';
 export { Sorter as TableSorter } from './src/database/Sorter.js';
+export { RetryPolicy } from './src/database/RetryPolicy.js';
 export { FlushStrategy } from './src/application/FormsModule.js';
 export { FieldProperties } from './src/public/FieldProperties.js';
 export { ConnectionScope } from './src/database/ConnectionScope.js';
+export { SQLDialect } from './src/database/SQLDialect.js';
+export { Pagination } from './src/database/Pagination.js';
 export { DatabaseConnection } from './src/public/DatabaseConnection.js';
+export { TokenProvider, AccessToken } from './src/public/TokenProvider.js';
+export { LocalBackend, LocalProcedure } from './src/database/local/LocalBackend.js';
+export { CommitResult, CommitOutcome } from './src/public/CommitResult.js';
+export { ConnectionStatistics, RequestStatistics, Latency, StatisticsSink } from './src/public/ConnectionStatistics.js';
 
 export { Messages, Level } from './src/messages/Messages.js';
 export { Message } from './src/messages/interfaces/Message.js';
@@ -23,7 +33,18 @@ export { Group as MessageGroup } from './src/messages/interfaces/Group.js';
 export { Bundle as MessageBundle } from './src/messages/interfaces/Bundle.js';
 
 export { MemoryTable } from './src/model/datasources/MemoryTable.js';
+export { RestTable, RestOperation, RestPaging, PagingParameters } from './src/model/datasources/RestTable.js';
+export { ODataTable } from './src/model/datasources/ODataTable.js';
+export { StorageTable, Migration } from './src/model/datasources/StorageTable.js';
+export { MemoryStorage } from './src/model/datasources/storage/MemoryStorage.js';
+export { LocalStorage } from './src/model/datasources/storage/LocalStorage.js';
+export { StorageAdapter } from './src/model/datasources/storage/StorageAdapter.js';
+export { IndexedDBStorage } from './src/model/datasources/storage/IndexedDBStorage.js';
 export { DataSource, LockMode } from './src/model/interfaces/DataSource.js';
+export { Aggregate, AggregateFunction } from './src/model/interfaces/Aggregate.js';
+
+export { Exporter } from './src/application/export/Exporter.js';
+export { ExportFormat, ExportOptions } from './src/application/export/ExportOptions.js';
 
 export { KeyMapPage} from './src/internal/forms/KeyMapPage.js';
 export { DatePicker } from './src/internal/forms/DatePicker.js';
@@ -31,6 +52,7 @@ export { Alert as AlertForm } from './src/internal/forms/Alert.js';
 export { Classes as InternalClasses } from './src/internal/Classes.js';
 export { UsernamePassword } from './src/internal/forms/UsernamePassword.js';
 export { AdvancedQuery as QueryEditor } from './src/internal/forms/AdvancedQuery.js';
+export { ConflictResolution } from './src/internal/forms/ConflictResolution.js';
 
 export { Case } from './src/public/Case.js';
 export { DateConstraint } from './src/public/DateConstraint.js';
@@ -46,6 +68,7 @@ export { Properties as FormProperties, ScrollDirection } from './src/application
 export { block } from './src/application/annotations/block.js';
 export { formevent } from './src/application/annotations/formevent.js';
 export { datasource } from './src/application/annotations/datasource.js';
+export { connection } from './src/application/annotations/connection.js';
 
 export { Logger } from './src/application/Logger.js';
 export { Tag as CustomTag } from './src/application/tags/Tag.js';
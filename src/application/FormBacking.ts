@@ -32,13 +32,17 @@ import { Messages } from '../messages/Messages.js';
 import { Form as ViewForm } from '../view/Form.js';
 import { Form as ModelForm } from '../model/Form.js';
 import { Block as ViewBlock } from '../view/Block.js';
+import { SQLSource } from '../database/SQLSource.js';
 import { Connection } from '../database/Connection.js';
 import { Block as ModelBlock } from '../model/Block.js';
 import { ListOfValues } from '../public/ListOfValues.js';
 import { Relation } from '../model/relations/Relation.js';
 import { EventType } from '../control/events/EventType.js';
 import { Form as InternalForm } from '../internal/Form.js';
+import { CommitOutcome, CommitResult } from '../public/CommitResult.js';
 import { DateConstraint } from '../public/DateConstraint.js';
+import { DataSourceWrapper } from '../model/DataSourceWrapper.js';
+import { DatabaseConnection } from '../public/DatabaseConnection.js';
 import { EventStack } from '../control/events/EventStack.js';
 import { ComponentFactory } from './interfaces/ComponentFactory.js';
 import { FormEvent, FormEvents } from '../control/events/FormEvents.js';
@@ -48,9 +52,15 @@ export class FormBacking
 	private static prev:Form = null;
 	private static form:Form = null;
 
+	private static defconn:string = null;
+	private static commitres:CommitResult = null;
+
 	private static nonav:Set<string> =
 		new Set<string>();
 
+	private static connections:Map<string,DatabaseConnection> =
+		new Map<string,DatabaseConnection>();
+
 	private static vforms:Map<Form,ViewForm> =
 		new Map<Form,ViewForm>();
 
@@ -250,6 +260,36 @@ export class FormBacking
 		return(!this.nonav.has(name));
 	}
 
+	public static registerConnection(name:string, connection:DatabaseConnection, isdefault?:boolean) : void
+	{
+		name = name?.toLowerCase();
+		this.connections.set(name,connection);
+		if (isdefault || this.defconn == null) this.defconn = name;
+	}
+
+	public static unregisterConnection(name:string) : void
+	{
+		name = name?.toLowerCase();
+		this.connections.delete(name);
+		if (this.defconn == name) this.defconn = null;
+	}
+
+	public static getConnection(name?:string) : DatabaseConnection
+	{
+		if (name == null) name = this.defconn;
+		return(this.connections.get(name?.toLowerCase()));
+	}
+
+	public static getDefaultConnection() : string
+	{
+		return(this.defconn);
+	}
+
+	public static setDefaultConnection(name:string) : void
+	{
+		this.defconn = name?.toLowerCase();
+	}
+
 	public static cleanup(form:Form) : void
 	{
 		FormMetaData.cleanup(form);
@@ -328,6 +368,77 @@ export class FormBacking
 		return(transactions);
 	}
 
+	public static getWrappers(connection:Connection) : DataSourceWrapper[]
+	{
+		let wrappers:DataSourceWrapper[] = [];
+		let forms:ModelForm[] = [...FormBacking.mforms.values()];
+
+		for (let i = 0; i < forms.length; i++)
+		{
+			forms[i].getBlocks().forEach((block) =>
+			{
+				let wrapper:DataSourceWrapper = forms[i].datamodel.getWrapper(block);
+				let source:any = wrapper?.source;
+
+				if (source instanceof SQLSource && source.connection?.["conn$"] == connection)
+					wrappers.push(wrapper);
+			})
+		}
+
+		return(wrappers);
+	}
+
+	/** Undo the blocks bound to a connection, e.g. after its transaction was lost */
+	public static async undo(connection:Connection) : Promise<boolean>
+	{
+		let forms:Map<ModelForm,ModelBlock[]> = new Map<ModelForm,ModelBlock[]>();
+
+		FormBacking.getWrappers(connection).forEach((wrapper) =>
+		{
+			let blocks:ModelBlock[] = forms.get(wrapper.block.form);
+
+			if (blocks == null)
+			{
+				blocks = [];
+				forms.set(wrapper.block.form,blocks);
+			}
+
+			blocks.push(wrapper.block);
+		});
+
+		let entries:[ModelForm,ModelBlock[]][] = [...forms.entries()];
+
+		for (let i = 0; i < entries.length; i++)
+		{
+			let form:ModelForm = entries[i][0];
+			let blocks:ModelBlock[] = entries[i][1];
+
+			if (!await form.undo(blocks))
+			{
+				Messages.warn(MSGGRP.TRX,3,form.name); // Failed to undo transactions for form %
+				return(false);
+			}
+
+			blocks.forEach((block) => block.dirty = false);
+		}
+
+		return(true);
+	}
+
+	public static cancelQuery() : boolean
+	{
+		let cancelled:boolean = false;
+		let dbconns:Connection[] = Connection.getAllConnections();
+
+		for (let i = 0; i < dbconns.length; i++)
+		{
+			if (dbconns[i].cancel())
+				cancelled = true;
+		}
+
+		return(cancelled);
+	}
+
 	public static async commit() : Promise<boolean>
 	{
 		let failed:boolean = false;
@@ -346,6 +457,9 @@ export class FormBacking
 		if (!await FormEvents.raise(FormEvent.AppEvent(EventType.PreCommit)))
 			return(false);
 
+		if (FormsModule.coordinatedCommit)
+			return(FormBacking.coordinatedCommit(forms,dbconns));
+
 		for (let i = 0; i < dbconns.length; i++)
 		{
 			if (dbconns[i].connected())
@@ -373,6 +487,92 @@ export class FormBacking
 		return(!failed);
 	}
 
+	public static getCommitResult() : CommitResult
+	{
+		return(FormBacking.commitres);
+	}
+
+	private static async coordinatedCommit(forms:ModelForm[], dbconns:Connection[]) : Promise<boolean>
+	{
+		let failed:boolean = false;
+		let participants:Connection[] = [];
+
+		for (let i = 0; i < dbconns.length; i++)
+		{
+			if (dbconns[i].connected() && dbconns[i].hasTransactions())
+				participants.push(dbconns[i]);
+		}
+
+		let twophase:boolean = participants.length > 1;
+
+		participants.forEach((conn) =>
+			{if (!conn.twophase) twophase = false;});
+
+		let result:CommitResult = new CommitResult(twophase);
+		FormBacking.commitres = result;
+
+		if (twophase)
+		{
+			for (let i = 0; i < participants.length && !failed; i++)
+			{
+				if (!await participants[i].prepare())
+					failed = true;
+			}
+		}
+
+		for (let i = 0; i < participants.length; i++)
+		{
+			let outcome:CommitOutcome = null;
+
+			if (!failed)
+			{
+				if (await participants[i].commit()) outcome = CommitOutcome.Committed;
+				else if (twophase) outcome = CommitOutcome.Failed; // Prepared, the outcome is in doubt
+				else failed = true;
+			}
+
+			if (outcome == null)
+			{
+				if (await participants[i].rollback()) outcome = CommitOutcome.RolledBack;
+				else outcome = CommitOutcome.Failed;
+			}
+
+			result.setOutcome(participants[i].owner,outcome);
+		}
+
+		if (result.success)
+		{
+			for (let i = 0; i < forms.length; i++)
+				forms[i].synchronize();
+
+			Messages.info(MSGGRP.TRX,1); // Transactions successfully comitted
+			return(FormEvents.raise(FormEvent.AppEvent(EventType.PostCommit)));
+		}
+
+		for (let i = 0; i < participants.length; i++)
+		{
+			let wrappers:DataSourceWrapper[] = FormBacking.getWrappers(participants[i]);
+
+			switch(result.getOutcome(participants[i].owner))
+			{
+				case CommitOutcome.Committed :
+					wrappers.forEach((wrapper) => wrapper.setSynchronized());
+				break;
+
+				case CommitOutcome.RolledBack :
+					for (let w = 0; w < wrappers.length; w++)
+						await wrappers[w].restore();
+				break;
+			}
+		}
+
+		if (!result.partial) Messages.warn(MSGGRP.TRX,2); // Failed to push transactions to backend
+		else Messages.warn(MSGGRP.TRX,19,result.committed.length,result.rolledback.length+result.failed.length);
+
+		await FormEvents.raise(FormEvent.AppEvent(EventType.OnCommitFailure,result));
+		return(false);
+	}
+
 	public static async rollback() : Promise<boolean>
 	{
 		let failed:boolean = false;
@@ -23,6 +23,7 @@ import { Form } from "../public/Form.js";
 import { Block } from "../public/Block.js";
 import { FormBacking } from "./FormBacking.js";
 import { Class, isClass } from '../public/Class.js';
+import { SQLSource } from '../database/SQLSource.js';
 import { DataSource } from '../model/interfaces/DataSource.js';
 import { EventFilter } from '../control/events/EventFilter.js';
 
@@ -114,9 +115,14 @@ export class FormMetaData
 	public blockattrs:Map<string,string> =
 		new Map<string,string>();
 
+	public connection:string = null;
+
 	public formevents:Map<string,EventFilter|EventFilter[]> =
 		new Map<string,EventFilter|EventFilter[]>();
 
+	private blockconns$:Map<string,string> =
+		new Map<string,string>();
+
 	private blocksources$:Map<string,Class<DataSource>|DataSource> =
 		new Map<string,Class<DataSource>|DataSource>();
 
@@ -129,14 +135,19 @@ export class FormMetaData
 		{
 			if (!isClass(source)) sources.set(block,source);
 			else						 sources.set(block, new source());
+			this.setConnection(block,sources.get(block));
 		})
 
 		return(sources);
 	}
 
-	public addDataSource(block:string, source:Class<DataSource>|DataSource) : void
+	public addDataSource(block:string, source:Class<DataSource>|DataSource, connection?:string) : void
 	{
-		this.blocksources$.set(block?.toLowerCase(),source);
+		block = block?.toLowerCase();
+		this.blocksources$.set(block,source);
+
+		if (connection) this.blockconns$.set(block,connection);
+		else 				 this.blockconns$.delete(block);
 	}
 
 	public getDataSource(block:string) : DataSource
@@ -148,10 +159,19 @@ export class FormMetaData
 		{
 			source = new source();
 			this.blocksources$.set(block,source);
+			this.setConnection(block,source);
 		}
 
 		return(source as DataSource);
 	}
+
+	private setConnection(block:string, source:DataSource) : void
+	{
+		let connection:string = this.blockconns$.get(block);
+
+		if (connection && source instanceof SQLSource)
+			source.connection = connection;
+	}
 }
 
 export class BlockEvent
@@ -30,6 +30,7 @@ import { dates } from '../model/dates/dates.js';
 import { Level, Messages } from '../messages/Messages.js';
 import { Form as ViewForm } from '../view/Form.js';
 import { Loading } from '../internal/forms/Loading.js';
+import { CommitResult } from '../public/CommitResult.js';
 import { Form as InternalForm } from '../internal/Form.js';
 import { EventType } from '../control/events/EventType.js';
 import { TriggerFunction } from '../public/TriggerFunction.js';
@@ -47,6 +48,7 @@ export class FormsModule
 	private static root$:HTMLElement;
 	private static flush$:FlushStrategy;
 	private static showurl$:boolean = false;
+	private static coordinated$:boolean = false;
 	private static instance$:FormsModule = null;
 
 	/** Static method to return the singleton */
@@ -84,6 +86,18 @@ export class FormsModule
 		FormsModule.flush$ = strategy;
 	}
 
+	/** Commit all connections as a unit. Use two-phase commit if all connections supports it */
+	public static get coordinatedCommit() : boolean
+	{
+		return(FormsModule.coordinated$);
+	}
+
+	/** Commit all connections as a unit. Use two-phase commit if all connections supports it */
+	public static set coordinatedCommit(flag:boolean)
+	{
+		FormsModule.coordinated$ = flag;
+	}
+
 	/** The root element to which 'popup' forms will be added (default document.body) */
 	public static getRootElement() : HTMLElement
 	{
@@ -195,6 +209,36 @@ export class FormsModule
 		return(ApplicationHandler.instance.keyhandler(key));
 	}
 
+	/** Register a DatabaseConnection by name. The first connection registered becomes the default */
+	public static registerConnection(name:string, connection:DatabaseConnection, isdefault?:boolean) : void
+	{
+		FormBacking.registerConnection(name,connection,isdefault);
+	}
+
+	/** Remove a named DatabaseConnection */
+	public static unregisterConnection(name:string) : void
+	{
+		FormBacking.unregisterConnection(name);
+	}
+
+	/** Get a named DatabaseConnection, or the default connection if no name is given */
+	public static getConnection(name?:string) : DatabaseConnection
+	{
+		return(FormBacking.getConnection(name));
+	}
+
+	/** The name of the default DatabaseConnection */
+	public static get defaultConnection() : string
+	{
+		return(FormBacking.getDefaultConnection());
+	}
+
+	/** The name of the default DatabaseConnection */
+	public static set defaultConnection(name:string)
+	{
+		FormBacking.setDefaultConnection(name);
+	}
+
 	/** Whether a given DatabaseConnection has outstanding transactions */
 	public static hasTransactions(connection?:DatabaseConnection) : boolean
 	{
@@ -207,12 +251,24 @@ export class FormsModule
 		return(FormBacking.commit());
 	}
 
+	/** The result of the last coordinated commit */
+	public static getCommitResult() : CommitResult
+	{
+		return(FormBacking.getCommitResult());
+	}
+
 	/** Issue rollback on all DatabaseConnection's */
 	public static async rollback() : Promise<boolean>
 	{
 		return(FormBacking.rollback());
 	}
 
+	/** Cancel running queries on all DatabaseConnection's */
+	public static cancelQuery() : boolean
+	{
+		return(FormBacking.cancelQuery());
+	}
+
 	/** Handle fine message */
 	public static fine(grpno:number,errno:number,...args:any) : void
 	{
@@ -269,10 +325,10 @@ export class FormsModule
 		return(FormBacking.showform(form,null,parameters,container));
 	}
 
-	/** Show the blocking 'loading' html */
-	public static showLoading(message:string) : number
+	/** Show the blocking 'loading' html. If cancel is given, a Cancel button is offered */
+	public static showLoading(message:string, cancel?:() => void) : number
 	{
-		return(Loading.show(message));
+		return(Loading.show(message,cancel));
 	}
 
 	/** Remove the blocking 'loading' html */
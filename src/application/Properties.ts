@@ -33,8 +33,11 @@ import { ComponentFactory as FactoryImpl } from './ComponentFactory.js';
 import { Tag } from './tags/Tag.js';
 import { FormTag } from './tags/FormTag.js';
 import { Include } from './tags/Include.js';
+import { Summary } from './tags/Summary.js';
 import { Foreach } from './tags/Foreach.js';
 import { RowIndicator } from './tags/RowIndicator.js';
+import { RecordCounter } from './tags/RecordCounter.js';
+import { DataSourceTag } from './tags/DataSourceTag.js';
 import { FromAttribute } from './tags/FromAttribute.js';
 import { ImplAttribute } from './tags/ImplAttribute.js';
 import { FilterIndicator } from './tags/FilterIndicator.js';
@@ -66,6 +69,7 @@ export class Properties
 
 	public static IncludeTag:string = "include";
 	public static FormTag:string = "FutureForms";
+	public static DataSourceTag:string = "datasource";
 
 	public static BindAttr:string = "from";
 	public static RecordModeAttr:string = "mode";
@@ -83,6 +87,11 @@ export class Properties
 
 	public static IndicatorType:string = "row-indicator";
 	public static FilterIndicatorType:string = "filter-indicator";
+	public static SummaryType:string = "summary";
+	public static RecordCounterType:string = "record-counter";
+
+	public static RecordCounterUnknown:string = "?";
+	public static RecordCounterFormat:string = "record % of %";
 
 	public static Classes:ClassNames =
 	{
@@ -114,7 +123,8 @@ export class Properties
 	(
 			[
 				[Properties.FormTag,FormTag],
-				[Properties.IncludeTag,Include]
+				[Properties.IncludeTag,Include],
+				[Properties.DataSourceTag,DataSourceTag]
 			]
 	);
 
@@ -124,7 +134,9 @@ export class Properties
 	(
 			[
 				[Properties.IndicatorType,RowIndicator],
-				[Properties.FilterIndicatorType,FilterIndicator]
+				[Properties.FilterIndicatorType,FilterIndicator],
+				[Properties.SummaryType,Summary],
+				[Properties.RecordCounterType,RecordCounter]
 			]
 	);
 
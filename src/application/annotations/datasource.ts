@@ -37,13 +37,17 @@ import { DataSource } from '../../model/interfaces/DataSource.js';
  * Will create a datasource 'employees' and a block also called 'employees'.
  * Bind the block to the datasource and inject it into the form.
  *
+ * @datasource("employees",Employees,"hr")
+ *
+ * Will do the same, but use the connection registered as 'hr'.
+ *
  */
-export const datasource = (block:Block|string, source:Class<DataSource>|DataSource) =>
+export const datasource = (block:Block|string, source:Class<DataSource>|DataSource, connection?:string) =>
 {
 	function define(form:Class<Form>)
 	{
 		if (!(typeof block === "string")) block = block.name;
-		FormMetaData.get(form,true).addDataSource(block,source);
+		FormMetaData.get(form,true).addDataSource(block,source,connection);
 		Logger.log(Type.metadata,"Setting datasource on form: "+form.name+" block: "+block);
 	}
 
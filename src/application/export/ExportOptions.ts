@@ -0,0 +1,56 @@
+/*
+  MIT License
+
+  Copyright © 2023 Alex Høffner
+
+  Permission is hereby granted, free of charge, to any person obtaining a copy of this software
+  and associated documentation files (the “Software”), to deal in the Software without
+  restriction, including without limitation the rights to use, copy, modify, merge, publish,
+  distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the
+  Software is furnished to do so, subject to the following conditions:
+
+  The above copyright notice and this permission notice shall be included in all copies or
+  substantial portions of the Software.
+
+  THE SOFTWARE IS PROVIDED “AS IS”, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING
+  BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+  NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM,
+  DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+  FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+/** The output formats */
+export enum ExportFormat
+{
+	csv,
+	json,
+	spreadsheet
+}
+
+/**
+ * Options when exporting block data.
+ * Spreadsheet is SpreadsheetML (Excel 2003 XML), that Excel and most spreadsheets can open.
+ */
+export interface ExportOptions
+{
+	/** The output format, default csv */
+	format?:ExportFormat;
+
+	/** Include the column names, default true */
+	header?:boolean;
+
+	/** Fetch all rows, not just the rows fetched so far */
+	all?:boolean;
+
+	/** The columns. They are written in display order. Default is the fields in the block */
+	columns?:string[];
+
+	/** Write the values as displayed, using data mappers and formatters */
+	formatted?:boolean;
+
+	/** The csv field separator, default ',' */
+	separator?:string;
+
+	/** The name of the worksheet, default the name of the block */
+	sheet?:string;
+}
@@ -0,0 +1,317 @@
+/*
+  MIT License
+
+  Copyright © 2023 Alex Høffner
+
+  Permission is hereby granted, free of charge, to any person obtaining a copy of this software
+  and associated documentation files (the “Software”), to deal in the Software without
+  restriction, including without limitation the rights to use, copy, modify, merge, publish,
+  distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the
+  Software is furnished to do so, subject to the following conditions:
+
+  The above copyright notice and this permission notice shall be included in all copies or
+  substantial portions of the Software.
+
+  THE SOFTWARE IS PROVIDED “AS IS”, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING
+  BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+  NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM,
+  DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+  FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+import { Properties } from "../Properties.js";
+import { Field } from "../../view/fields/Field.js";
+import { dates } from "../../model/dates/dates.js";
+import { Block as ModelBlock } from "../../model/Block.js";
+import { DataType } from "../../view/fields/DataType.js";
+import { ExportFormat, ExportOptions } from "./ExportOptions.js";
+import { FieldInstance } from "../../view/fields/FieldInstance.js";
+import { DataMapper, Tier } from "../../view/fields/DataMapper.js";
+import { BasicProperties } from "../../view/fields/BasicProperties.js";
+import { Formatter as DefaultFormatter } from "../../view/fields/Formatter.js";
+import { Formatter, SimpleFormatter } from "../../view/fields/interfaces/Formatter.js";
+
+/**
+ * Writes the data in a block as csv (RFC 4180), json or SpreadsheetML.
+ * The data is taken from the block's datasource wrapper.
+ */
+export class Exporter
+{
+	private block$:ModelBlock = null;
+	private options$:ExportOptions = null;
+
+	public constructor(block:ModelBlock, options?:ExportOptions)
+	{
+		if (options == null)
+			options = {};
+
+		this.block$ = block;
+		this.options$ = {format: ExportFormat.csv, header: true, separator: ",", ...options};
+	}
+
+	/** The selected columns in display order, and the rows */
+	public async getTable() : Promise<{columns:string[], rows:any[][]}>
+	{
+		let data:any[][] = await this.block$.copy(true,this.options$.all);
+		let head:string[] = data.shift() ?? [];
+
+		let columns:string[] = this.getColumns(head);
+		let formats:ColumnFormat[] = columns.map((col) => this.getFormat(col));
+
+		let index:number[] = columns.map((col) => head.indexOf(col));
+		let rows:any[][] = data.map((row) => index.map((pos,c) => formats[c].apply(row[pos])));
+
+		return({columns: columns, rows: rows});
+	}
+
+	/** The data as text in the requested format */
+	public async write() : Promise<string>
+	{
+		let table:{columns:string[], rows:any[][]} = await this.getTable();
+
+		switch(this.options$.format)
+		{
+			case ExportFormat.json:
+				return(Exporter.json(table.columns,table.rows));
+
+			case ExportFormat.spreadsheet:
+				return(Exporter.spreadsheet(table.columns,table.rows,this.options$.header,this.sheet));
+
+			default:
+				return(Exporter.csv(table.columns,table.rows,this.options$.header,this.options$.separator));
+		}
+	}
+
+	/** The data as a Blob, e.g. for download */
+	public async toBlob() : Promise<Blob>
+	{
+		let type:string = "text/csv;charset=utf-8";
+
+		if (this.options$.format == ExportFormat.json) type = "application/json;charset=utf-8";
+		if (this.options$.format == ExportFormat.spreadsheet) type = "application/vnd.ms-excel;charset=utf-8";
+
+		return(new Blob([await this.write()],{type: type}));
+	}
+
+	/** Copy the data to the clipboard. Requires https */
+	public async toClipBoard() : Promise<void>
+	{
+		await navigator.clipboard.writeText(await this.write());
+	}
+
+	/** Write csv according to RFC 4180 */
+	public static csv(columns:string[], rows:any[][], header?:boolean, separator?:string) : string
+	{
+		let lines:string[] = [];
+		if (separator == null) separator = ",";
+
+		let quote:(value:any) => string = (value) =>
+		{
+			if (value == null) return("");
+			if (value instanceof Date) value = Exporter.timestamp(value);
+
+			value = value+"";
+
+			if (value.includes(separator) || value.includes('"') || value.includes("\n") || value.includes("\r"))
+				value = '"'+value.replace(/"/g,'""')+'"';
+
+			return(value);
+		}
+
+		if (header) lines.push(columns.map(quote).join(separator));
+		rows.forEach((row) => lines.push(row.map(quote).join(separator)));
+
+		return(lines.join("\r\n"));
+	}
+
+	/** Write json, an array with an object per row */
+	public static json(columns:string[], rows:any[][]) : string
+	{
+		let objects:any[] = rows.map((row) =>
+		{
+			let object:any = {};
+			columns.forEach((col,c) => object[col] = row[c] === undefined ? null : row[c]);
+			return(object);
+		});
+
+		return(JSON.stringify(objects,null,2));
+	}
+
+	/** Write SpreadsheetML (Excel 2003 XML) */
+	public static spreadsheet(columns:string[], rows:any[][], header?:boolean, sheet?:string) : string
+	{
+		let xml:string[] = [];
+
+		if (sheet == null) sheet = "Sheet1";
+		sheet = sheet.replace(/[[\]:*?/\\]/g,"").substring(0,31);
+
+		xml.push('<?xml version="1.0" encoding="UTF-8"?>');
+		xml.push('<?mso-application progid="Excel.Sheet"?>');
+		xml.push('<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">');
+		xml.push('<Styles>');
+		xml.push('<Style ss:ID="header"><Font ss:Bold="1"/></Style>');
+		xml.push('<Style ss:ID="date"><NumberFormat ss:Format="General Date"/></Style>');
+		xml.push('</Styles>');
+		xml.push('<Worksheet ss:Name="'+Exporter.escape(sheet)+'">');
+		xml.push('<Table>');
+
+		if (header)
+		{
+			let cells:string = columns.map((col) =>
+				'<Cell ss:StyleID="header"><Data ss:Type="String">'+Exporter.escape(col)+'</Data></Cell>').join("");
+
+			xml.push("<Row>"+cells+"</Row>");
+		}
+
+		rows.forEach((row) => xml.push("<Row>"+row.map((value) => Exporter.cell(value)).join("")+"</Row>"));
+
+		xml.push('</Table>');
+		xml.push('</Worksheet>');
+		xml.push('</Workbook>');
+
+		return(xml.join("\n"));
+	}
+
+	private get sheet() : string
+	{
+		if (this.options$.sheet) return(this.options$.sheet);
+		return(this.block$.name);
+	}
+
+	private getColumns(head:string[]) : string[]
+	{
+		let columns:string[] = [];
+		let displayed:string[] = this.block$.view?.getFieldNames() ?? [];
+		let selected:string[] = this.options$.columns?.map((col) => col.toLowerCase());
+
+		if (selected == null)
+		{
+			selected = displayed.filter((col) => head.includes(col));
+			if (selected.length == 0) selected = head;
+		}
+
+		// Displayed columns first, in the order they are displayed
+		displayed.forEach((col) => {if (selected.includes(col)) columns.push(col)});
+		selected.forEach((col) => {if (!columns.includes(col) && head.includes(col)) columns.push(col)});
+
+		return(columns);
+	}
+
+	private getFormat(column:string) : ColumnFormat
+	{
+		let format:ColumnFormat = new ColumnFormat();
+
+		if (!this.options$.formatted)
+			return(format);
+
+		let field:Field = this.block$.view?.getAllFields(column)[0];
+		let inst:FieldInstance = field?.getInstances()[0];
+
+		if (inst == null)
+			return(format);
+
+		let props:BasicProperties = inst.defaultProperties;
+
+		format.formatted = true;
+		format.datatype = inst.datatype;
+
+		// Use new instances, not to disturb the fields
+		if (props.mapper) format.mapper = Exporter.create(props.mapper);
+		if (props.simpleformatter) format.sformatter = Exporter.create(props.simpleformatter);
+
+		let mask:string = props.getAttribute("format");
+
+		if (props.formatter) format.formatter = Exporter.create(props.formatter);
+		else if (mask != null || props.hasAttribute("date") || props.hasAttribute("datetime")) format.formatter = new DefaultFormatter();
+
+		if (format.formatter)
+		{
+			format.sformatter = null;
+			if (mask != null) format.formatter.format = mask;
+			format.formatter.datatype = inst.datatype;
+		}
+
+		return(format);
+	}
+
+	private static create(object:any) : any
+	{
+		return(Properties.FactoryImplementation.createBean(object.constructor));
+	}
+
+	private static cell(value:any) : string
+	{
+		if (value == null)
+			return("<Cell/>");
+
+		if (typeof value === "number" && isFinite(value))
+			return('<Cell><Data ss:Type="Number">'+value+'</Data></Cell>');
+
+		if (typeof value === "boolean")
+			return('<Cell><Data ss:Type="Boolean">'+(value ? 1 : 0)+'</Data></Cell>');
+
+		if (value instanceof Date)
+			return('<Cell ss:StyleID="date"><Data ss:Type="DateTime">'+Exporter.timestamp(value)+'</Data></Cell>');
+
+		return('<Cell><Data ss:Type="String">'+Exporter.escape(value+"")+'</Data></Cell>');
+	}
+
+	/** Dates are written in local time, as shown in the form */
+	private static timestamp(date:Date) : string
+	{
+		let pad:(n:number, len?:number) => string = (n,len) => (""+n).padStart(len ?? 2,"0");
+
+		return(date.getFullYear()+"-"+pad(date.getMonth()+1)+"-"+pad(date.getDate())+"T"+
+			pad(date.getHours())+":"+pad(date.getMinutes())+":"+pad(date.getSeconds())+"."+pad(date.getMilliseconds(),3));
+	}
+
+	private static escape(value:string) : string
+	{
+		return(value.replace(/&/g,"&amp;").replace(/</g,"&lt;").replace(/>/g,"&gt;")
+			.replace(/"/g,"&quot;").replace(/\r?\n/g,"&#10;"));
+	}
+}
+
+class ColumnFormat
+{
+	datatype:DataType;
+	mapper:DataMapper = null;
+	formatted:boolean = false;
+	formatter:Formatter = null;
+	sformatter:SimpleFormatter = null;
+
+	apply(value:any) : any
+	{
+		if (!this.formatted)
+			return(value);
+
+		if (this.mapper != null)
+		{
+			this.mapper.setValue(Tier.Backend,value);
+			value = this.mapper.getValue(Tier.Frontend);
+		}
+
+		if (typeof value === "number" && (this.datatype == DataType.date || this.datatype == DataType.datetime))
+			value = new Date(+value);
+
+		if (value instanceof Date)
+		{
+			try {value = dates.format(value);}
+			catch (error) {value = null;}
+		}
+
+		if (this.formatter != null)
+		{
+			this.formatter.setValue(value);
+			value = this.formatter.isNull() ? null : this.formatter.getValue();
+		}
+
+		if (this.sformatter != null)
+		{
+			this.sformatter.setValue(value);
+			value = this.sformatter.getValue();
+		}
+
+		return(value);
+	}
+}
@@ -125,6 +125,14 @@ export class Internals
 		border-top: 4px solid #3498db;
 	`;
 
+	public static LoaderCancelStyle:string =
+	`
+		width: 80px;
+		position: absolute;
+		top: calc(40% + 30px);
+		left: calc(50% - 40px);
+	`;
+
 
 
 	public static stylePopupWindow(view:HTMLElement, title?:string, height?:number, width?:number) : void
@@ -132,6 +140,7 @@ export class Internals
 		let scope:HTMLElement = view.querySelector('div[name="scope"]');
 		let login:HTMLElement = view.querySelector('div[name="login"]');
 		let loading:HTMLElement = view.querySelector('div[name="loading"]');
+		let cancel:HTMLElement = view.querySelector('button[name="cancel"]');
 		let body:HTMLElement = view.querySelector('div[name="popup-body"]');
 		let indexing:HTMLElement = view.querySelector('div[name="indexing"]');
 		let database:HTMLElement = view.querySelector('div[name="database"]');
@@ -172,6 +181,7 @@ export class Internals
 		if (loading && Internals.LoaderStyle)
 		{
 			loading.style.cssText = Internals.LoaderStyle;
+			if (cancel && Internals.LoaderCancelStyle) cancel.style.cssText = Internals.LoaderCancelStyle;
 
 			loading.animate(
 			[
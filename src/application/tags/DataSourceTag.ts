@@ -0,0 +1,86 @@
+/*
+  MIT License
+
+  Copyright © 2023 Alex Høffner
+
+  Permission is hereby granted, free of charge, to any person obtaining a copy of this software
+  and associated documentation files (the “Software”), to deal in the Software without
+  restriction, including without limitation the rights to use, copy, modify, merge, publish,
+  distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the
+  Software is furnished to do so, subject to the following conditions:
+
+  The above copyright notice and this permission notice shall be included in all copies or
+  substantial portions of the Software.
+
+  THE SOFTWARE IS PROVIDED “AS IS”, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING
+  BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+  NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM,
+  DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+  FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+import { Tag } from "./Tag.js";
+import { Form } from "../../public/Form.js";
+import { QueryTable } from "../../database/QueryTable.js";
+import { Form as InternalForm } from "../../internal/Form.js";
+import { DatabaseTable } from "../../database/DatabaseTable.js";
+
+/**
+ * Declares a database datasource for a block:
+ *
+ * <datasource block="emp" table="employees" connection="hr" primary="employee_id"></datasource>
+ * <datasource block="mgr" query="select * from managers" order="name"></datasource>
+ *
+ * Without connection, the form's or application's default connection is used.
+ */
+export class DataSourceTag implements Tag
+{
+	public parse(component:any, tag:HTMLElement, _attr:string) : string|HTMLElement|HTMLElement[]
+	{
+		if (component == null)
+			throw "@DataSource: component is null";
+
+		if (!(component instanceof Form) && !(component instanceof InternalForm))
+			throw "@DataSource: DataSources cannot be placed on non-forms "+component.constructor.name;
+
+		let block:string = tag.getAttribute("block");
+		let table:string = tag.getAttribute("table");
+		let query:string = tag.getAttribute("query");
+		let order:string = tag.getAttribute("order");
+		let primary:string = tag.getAttribute("primary");
+		let columns:string = tag.getAttribute("columns");
+		let connection:string = tag.getAttribute("connection");
+
+		if (block == null)
+			throw "@DataSource: attribute 'block' is missing";
+
+		if (table != null)
+		{
+			let source:DatabaseTable = new DatabaseTable(connection,table,this.split(columns));
+
+			if (order) source.sorting = order;
+			if (primary) source.primaryKey = this.split(primary);
+
+			component.setDataSource(block,source);
+		}
+		else if (query != null)
+		{
+			let source:QueryTable = new QueryTable(connection,query);
+
+			if (order) source.sorting = order;
+			component.setDataSource(block,source);
+		}
+		else
+		{
+			throw "@DataSource: either 'table' or 'query' must be specified";
+		}
+
+		return(null);
+	}
+
+	private split(columns:string) : string[]
+	{
+		if (columns == null) return(null);
+		return(columns.split(",").map((col) => col.trim()));
+	}
+}
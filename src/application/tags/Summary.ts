@@ -0,0 +1,74 @@
+/*
+  MIT License
+
+  Copyright © 2023 Alex Høffner
+
+  Permission is hereby granted, free of charge, to any person obtaining a copy of this software
+  and associated documentation files (the “Software”), to deal in the Software without
+  restriction, including without limitation the rights to use, copy, modify, merge, publish,
+  distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the
+  Software is furnished to do so, subject to the following conditions:
+
+  The above copyright notice and this permission notice shall be included in all copies or
+  substantial portions of the Software.
+
+  THE SOFTWARE IS PROVIDED “AS IS”, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING
+  BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+  NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM,
+  DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+  FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+import { Tag } from "./Tag.js";
+import { Form } from "../../public/Form.js";
+import { Properties } from "../Properties.js";
+import { FormBacking } from "../FormBacking.js";
+import { dates } from "../../model/dates/dates.js";
+import { AggregateFunction } from "../../model/interfaces/Aggregate.js";
+
+export class Summary implements Tag
+{
+	public column:string = null;
+	public binding:string = null;
+	public element:HTMLElement = null;
+	public function:AggregateFunction = null;
+
+	public parse(component:any, tag:HTMLElement, attr:string) : HTMLElement
+	{
+		let column:string = tag.getAttribute("column");
+		let binding:string = tag.getAttribute(attr);
+		let func:string = tag.getAttribute("aggregate")?.toLowerCase();
+		if (attr != Properties.BindAttr) tag.removeAttribute(attr);
+
+		if (func == null)
+			throw "@Summary: aggregate attribute missing";
+
+		if (AggregateFunction[func as keyof typeof AggregateFunction] == null)
+			throw "@Summary: unknown aggregate function "+func;
+
+		if (column == null && func != "count")
+			throw "@Summary: column attribute missing";
+
+		if (!(component instanceof Form))
+			throw "@Summary: Summaries cannot be placed on non-forms "+component.constructor.name;
+
+		this.element = tag;
+		this.binding = binding;
+		this.column = column?.toLowerCase();
+		this.function = AggregateFunction[func as keyof typeof AggregateFunction];
+
+		FormBacking.getViewForm(component,true)?.addSummary(this);
+		return(tag);
+	}
+
+	public show(value:any) : void
+	{
+		let text:string = "";
+
+		if (value instanceof Date) text = dates.format(value);
+		else if (typeof value === "number") text = value.toLocaleString();
+		else if (value != null) text = value+"";
+
+		this.element.textContent = text;
+	}
+}
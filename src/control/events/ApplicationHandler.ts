@@ -115,6 +115,9 @@ export class ApplicationHandler implements EventListenerObject
 			return(true);
 		}
 
+		if (key == KeyMap.cancelquery)
+			return(FormBacking.cancelQuery());
+
 		if (key == KeyMap.commit)
 			return(FormBacking.commit());
 
@@ -55,6 +55,7 @@ export enum EventType
 
 	PreCommit,
 	PostCommit,
+	OnCommitFailure,
 
 	PreRollback,
 	PostRollback,
@@ -127,6 +128,7 @@ export class EventGroup
 		EventType.Disconnect,
 		EventType.PreCommit,
 		EventType.PostCommit,
+		EventType.OnCommitFailure,
 		EventType.PreRollback,
 		EventType.PostRollback,
 		EventType.OnTransaction,
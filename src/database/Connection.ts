@@ -21,7 +21,12 @@
 
 import { Cursor } from "./Cursor.js";
 import { SQLRest } from "./SQLRest.js";
+import { SQLCache } from "./SQLCache.js";
 import { BindValue } from "./BindValue.js";
+import { SQLDialect } from "./SQLDialect.js";
+import { Statistics } from "./Statistics.js";
+import { RetryPolicy } from "./RetryPolicy.js";
+import { OfflineQueue } from "./OfflineQueue.js";
 import { MSGGRP } from "../messages/Internal.js";
 import { ConnectionScope } from "./ConnectionScope.js";
 import { Logger, Type } from "../application/Logger.js";
@@ -29,8 +34,12 @@ import { Messages, Level } from "../messages/Messages.js";
 import { EventType } from "../control/events/EventType.js";
 import { FormsModule } from "../application/FormsModule.js";
 import { FormBacking } from "../application/FormBacking.js";
-import { Connection as BaseConnection } from "../public/Connection.js";
+import { DataSourceWrapper } from "../model/DataSourceWrapper.js";
+import { DatabaseConnection } from "../public/DatabaseConnection.js";
+import { AccessToken, TokenProvider } from "../public/TokenProvider.js";
 import { FormEvent, FormEvents } from "../control/events/FormEvents.js";
+import { Connection as BaseConnection, HTTPResponse } from "../public/Connection.js";
+import { ConnectionStatistics, StatisticsSink } from "../public/ConnectionStatistics.js";
 
 export class Connection extends BaseConnection
 {
@@ -43,6 +52,24 @@ export class Connection extends BaseConnection
 	private nowait$:boolean = false;
 	private running$:boolean = false;
 	private tmowarn$:boolean = false;
+	private timeout$:number = null;
+	private retry$:RetryPolicy = null;
+	private offline$:OfflineQueue = null;
+	private twophase$:boolean = false;
+	private dialect$:SQLDialect = SQLDialect.standard;
+	private idempotency$:boolean = false;
+	private queries$:Set<AbortController> = new Set<AbortController>();
+	private savepoints$:string[] = [];
+	private published$:number = Date.now();
+	private sink$:StatisticsSink = null;
+	private statistics$:Statistics = new Statistics();
+	private owner$:DatabaseConnection = null;
+	private token$:AccessToken = null;
+	private tokens$:TokenProvider = null;
+	private refreshing$:Promise<boolean> = null;
+	private recover$:boolean = false;
+	private reconnect$:() => Promise<boolean> = null;
+	private credentials$:{username:string, password:string, custom:Map<string,any>} = null;
 	private authmethod$:string = null;
 	private autocommit$:boolean = false;
 	private attributes$:Map<string,any> = new Map<string,any>();
@@ -53,6 +80,9 @@ export class Connection extends BaseConnection
 	public static TRXTIMEOUT:number = 240;
 	public static LOCKINSPECT:number = 120;
 	public static CONNTIMEOUT:number = 120;
+	public static TOKENREFRESH:number = 30;
+
+	private static requests$:number = 0;
 
 
 	// Be able to get the real connection from the public
@@ -64,12 +94,18 @@ export class Connection extends BaseConnection
 		return(this.conns$);
 	}
 
-	public constructor(url?:string|URL)
+	public constructor(url?:string|URL, owner?:DatabaseConnection)
 	{
 		super(url);
+		this.owner$ = owner;
 		Connection.conns$.push(this);
 	}
 
+	public get owner() : DatabaseConnection
+	{
+		return(this.owner$);
+	}
+
 	public get locks() : number
 	{
 		return(this.locks$);
@@ -117,11 +153,115 @@ export class Connection extends BaseConnection
 		this.authmethod$ = method;
 	}
 
+	public get twophase() : boolean
+	{
+		return(this.twophase$);
+	}
+
 	public get transactional() : boolean
 	{
 		return(this.scope != ConnectionScope.stateless);
 	}
 
+	public get tokenprovider() : TokenProvider
+	{
+		return(this.tokens$);
+	}
+
+	public set tokenprovider(provider:TokenProvider)
+	{
+		this.token$ = null;
+		this.tokens$ = provider;
+	}
+
+	public get recover() : boolean
+	{
+		return(this.recover$);
+	}
+
+	public set recover(flag:boolean)
+	{
+		this.recover$ = flag;
+		if (!flag) this.credentials$ = null;
+	}
+
+	public get reconnect() : () => Promise<boolean>
+	{
+		return(this.reconnect$);
+	}
+
+	public set reconnect(handler:() => Promise<boolean>)
+	{
+		this.reconnect$ = handler;
+	}
+
+	public get dialect() : SQLDialect
+	{
+		return(this.dialect$);
+	}
+
+	public set dialect(dialect:SQLDialect)
+	{
+		this.dialect$ = dialect;
+	}
+
+	public get timeout() : number
+	{
+		return(this.timeout$);
+	}
+
+	public set timeout(timeout:number)
+	{
+		this.timeout$ = timeout;
+	}
+
+	public get statisticsSink() : StatisticsSink
+	{
+		return(this.sink$);
+	}
+
+	public set statisticsSink(sink:StatisticsSink)
+	{
+		this.sink$ = sink;
+		this.published$ = Date.now();
+	}
+
+	public getStatistics() : ConnectionStatistics
+	{
+		return(this.statistics$.snapshot(this.locks$));
+	}
+
+	public resetStatistics() : void
+	{
+		this.statistics$.reset();
+	}
+
+	public get retrypolicy() : RetryPolicy
+	{
+		return(this.retry$);
+	}
+
+	public set retrypolicy(policy:RetryPolicy)
+	{
+		this.retry$ = policy;
+	}
+
+	public get offline() : OfflineQueue
+	{
+		return(this.offline$);
+	}
+
+	public set offline(queue:OfflineQueue)
+	{
+		this.offline$ = queue;
+	}
+
+	/** Queue changes flushed while disconnected as part of the current transaction */
+	public async queue(steps:Step[], replayed:(responses:any[]) => Promise<void>) : Promise<void>
+	{
+		await this.offline$.add(steps,this.trx,replayed);
+	}
+
 	public addAttribute(name:string, value:any) : void
 	{
 		this.attributes$.set(name,value);
@@ -142,6 +282,17 @@ export class Connection extends BaseConnection
 		this.clientinfo$.delete(name);
 	}
 
+	public cancel() : boolean
+	{
+		if (this.queries$.size == 0)
+			return(false);
+
+		this.queries$.forEach((query) => query.abort());
+		this.queries$.clear();
+
+		return(true);
+	}
+
 	public connected() : boolean
 	{
 		return(this.conn$ != null);
@@ -172,6 +323,16 @@ export class Connection extends BaseConnection
 		}
 
 		let method:string = this.authmethod$;
+
+		if (this.tokens$ != null)
+		{
+			if (!await this.obtainToken(false))
+				return(false);
+
+			if (!method) method = "token";
+			password = this.token$.token;
+		}
+
 		if (!method) method = "database";
 
 		let payload:any =
@@ -216,10 +377,15 @@ export class Connection extends BaseConnection
 		if (response["version"])
 			console.log("OpenRestDB Version: "+response.version);
 
+		if (this.recover$ && this.reconnect$ == null)
+			this.credentials$ = {username: username, password: password, custom: custom};
+
 		this.trx$ = new Object();
 		this.conn$ = response.session;
 		this.nowait$ = response.nowait;
 		this.autocommit$ = response.autocommit;
+		this.twophase$ = response.twophase == true;
+		this.idempotency$ = response.idempotency == true;
 		this.keepalive$ = (+response.timeout * 4/5)*1000;
 
 		if (this.keepalive$ > 4/5*Connection.LOCKINSPECT*1000)
@@ -230,6 +396,10 @@ export class Connection extends BaseConnection
 		if (!this.running$)
 			this.keepalive();
 
+		// Changes flushed while disconnected, committed per transaction
+		if (this.offline$ != null)
+			await this.offline$.replay(this);
+
 		return(true);
 	}
 
@@ -250,11 +420,14 @@ export class Connection extends BaseConnection
 		Logger.log(Type.database,"disconnect");
 		let response:any = await this.post("disconnect",payload);
 
+		this.publish(true);
+
 		if (response.success)
 		{
 			this.conn$ = null;
 			this.touched = null;
 			this.modified = null;
+			this.savepoints$ = [];
 		}
 
 		await FormEvents.raise(FormEvent.AppEvent(EventType.Disconnect));
@@ -263,6 +436,13 @@ export class Connection extends BaseConnection
 
 	public async commit() : Promise<boolean>
 	{
+		// Changes queued while disconnected are committed when replayed
+		if (this.offline$ != null && !this.connected())
+		{
+			this.trx = new Object();
+			return(true);
+		}
+
 		if (this.modified == null)
 			return(true);
 
@@ -280,7 +460,7 @@ export class Connection extends BaseConnection
 
 		Logger.log(Type.database,"commit");
 		let thread:number = FormsModule.showLoading("Comitting");
-		let response:any = await this.post("commit",payload);
+		let response:any = await this.send("commit",payload,false);
 		FormsModule.hideLoading(thread);
 
 		if (response.success)
@@ -288,6 +468,7 @@ export class Connection extends BaseConnection
 			this.locks$ = 0;
 			this.touched = null;
 			this.modified = null;
+			this.savepoints$ = [];
 
 			if (response["session"])
 				this.conn$ = response.session;
@@ -302,8 +483,44 @@ export class Connection extends BaseConnection
 		return(true);
 	}
 
+	public async prepare() : Promise<boolean>
+	{
+		if (this.modified == null)
+			return(true);
+
+		this.touched = new Date();
+
+		let payload:any =
+		{
+			session: this.conn$
+		};
+
+		this.attributes$.forEach((value,name) =>
+			{payload[name] = value})
+
+		Logger.log(Type.database,"prepare");
+		let thread:number = FormsModule.showLoading("Preparing commit");
+		let response:any = await this.send("prepare",payload,false);
+		FormsModule.hideLoading(thread);
+
+		if (response["session"])
+			this.conn$ = response.session;
+
+		if (!response.success)
+		{
+			Messages.handle(MSGGRP.TRX,response.message,Level.fine);
+			return(false);
+		}
+
+		return(true);
+	}
+
 	public async rollback() : Promise<boolean>
 	{
+		// Changes queued while disconnected are part of the transaction
+		if (this.offline$ != null)
+			await this.offline$.discard(this.trx);
+
 		if (!this.modified)
 			return(true);
 
@@ -327,8 +544,12 @@ export class Connection extends BaseConnection
 			this.locks$ = 0;
 			this.touched = null;
 			this.modified = null;
+			this.savepoints$ = [];
 			this.trx = new Object();
 
+			// Cached results might include rolled back changes
+			SQLCache.invalidate(this);
+
 			if (response["session"])
 				this.conn$ = response.session;
 		}
@@ -342,6 +563,79 @@ export class Connection extends BaseConnection
 		return(true);
 	}
 
+	public async savepoint(name:string) : Promise<boolean>
+	{
+		let response:any = await this.savepointAction("set",name);
+
+		if (!response.success)
+		{
+			Messages.handle(MSGGRP.TRX,response.message,Level.fine);
+			return(false);
+		}
+
+		this.savepoints$ = this.savepoints$.filter((savepoint) => savepoint != name);
+		this.savepoints$.push(name);
+
+		FormBacking.getWrappers(this).forEach((wrapper) =>
+			{wrapper.savepoint(name)});
+
+		return(true);
+	}
+
+	public async rollbackTo(name:string) : Promise<boolean>
+	{
+		let pos:number = this.savepoints$.indexOf(name);
+
+		if (pos < 0)
+		{
+			Messages.warn(MSGGRP.TRX,18,name); // Savepoint does not exist
+			return(false);
+		}
+
+		let response:any = await this.savepointAction("rollback",name);
+
+		if (!response.success)
+		{
+			Messages.handle(MSGGRP.TRX,response.message,Level.fine);
+			return(false);
+		}
+
+		SQLCache.invalidate(this);
+		this.savepoints$.splice(pos+1);
+		let wrappers:DataSourceWrapper[] = FormBacking.getWrappers(this);
+
+		for (let i = 0; i < wrappers.length; i++)
+			await wrappers[i].rollbackTo(name);
+
+		return(true);
+	}
+
+	public async releaseSavepoint(name:string) : Promise<boolean>
+	{
+		let pos:number = this.savepoints$.indexOf(name);
+
+		if (pos < 0)
+		{
+			Messages.warn(MSGGRP.TRX,18,name); // Savepoint does not exist
+			return(false);
+		}
+
+		let response:any = await this.savepointAction("release",name);
+
+		if (!response.success)
+		{
+			Messages.handle(MSGGRP.TRX,response.message,Level.fine);
+			return(false);
+		}
+
+		this.savepoints$.splice(pos);
+
+		FormBacking.getWrappers(this).forEach((wrapper) =>
+			{wrapper.releaseSavepoint(name)});
+
+		return(true);
+	}
+
 	public async release() : Promise<boolean>
 	{
 		this.tmowarn = false;
@@ -375,7 +669,17 @@ export class Connection extends BaseConnection
 		return(true);
 	}
 
-	public async select(sql:SQLRest, cursor:Cursor, rows:number, describe?:boolean) : Promise<Response>
+	public async select(sql:SQLRest, cursor:Cursor, rows:number, describe?:boolean, background?:boolean) : Promise<Response>
+	{
+		return(this.open("select",sql,cursor,rows,describe,background));
+	}
+
+	public async refcursor(sql:SQLRest, cursor:Cursor, rows:number, describe?:boolean) : Promise<Response>
+	{
+		return(this.open("call",sql,cursor,rows,describe,false));
+	}
+
+	private async open(path:string, sql:SQLRest, cursor:Cursor, rows:number, describe:boolean, background:boolean) : Promise<Response>
 	{
 		if (describe == null)
 			describe = false;
@@ -404,6 +708,9 @@ export class Connection extends BaseConnection
 			bindvalues: this.convert(sql.bindvalues)
 		};
 
+		let timeout:number = sql.timeout != null ? sql.timeout : this.timeout$;
+		if (timeout > 0) payload.timeout = timeout;
+
 		if (cursor)
 		{
 			payload.cursor = cursor.name;
@@ -412,6 +719,8 @@ export class Connection extends BaseConnection
 			cursor.pos += rows;
 			cursor.trx = this.trx$;
 			cursor.stmt = sql.stmt;
+			cursor.procedure = path == "call";
+			cursor.timeout = timeout;
 			cursor.bindvalues = sql.bindvalues;
 		}
 
@@ -424,10 +733,27 @@ export class Connection extends BaseConnection
 		this.attributes$.forEach((value,name) =>
 			{payload[name] = value})
 
-		Logger.log(Type.database,"select");
-		let thread:number = FormsModule.showLoading("Querying");
-		let response:any = await this.post("select",payload);
-		FormsModule.hideLoading(thread);
+		let query:AbortController = new AbortController();
+		let timer:QueryTimer = new QueryTimer(query,timeout);
+
+		let thread:number = null;
+		Logger.log(Type.database,path);
+
+		// Procedures might have side effects, and are not retried
+		if (!background) this.queries$.add(query);
+		if (!background) thread = FormsModule.showLoading("Querying",() => query.abort());
+		let response:any = await this.send(path,payload,path == "select",query.signal);
+		if (!background) FormsModule.hideLoading(thread);
+
+		timer.clear();
+
+		this.queries$.delete(query);
+
+		if (response.aborted || response.timedout)
+		{
+			await this.cancelled(cursor,response,timer.expired ? timeout : null);
+			return(response);
+		}
 
 		if (!response.success)
 		{
@@ -444,8 +770,80 @@ export class Connection extends BaseConnection
 		return(response);
 	}
 
-	public async fetch(cursor:Cursor) : Promise<Response>
+	public async selectAll(sql:SQLRest, cursor:Cursor, rows:number) : Promise<Response>
+	{
+		let response:any = await this.select(sql,cursor,rows);
+
+		if (!response.success)
+			return(response);
+
+		let all:any[] = [...response.rows];
+
+		while (!cursor.eof)
+		{
+			let next:any = await this.fetch(cursor);
+
+			if (!next.success)
+				return(next);
+
+			all.push(...next.rows);
+		}
+
+		response.rows = all;
+		response.more = false;
+
+		return(response);
+	}
+
+	public async count(sql:SQLRest, signal:AbortSignal) : Promise<number>
+	{
+		let row:any[] = await this.selectRow(sql,signal);
+		return(row ? +row[0] : null);
+	}
+
+	public async selectRow(sql:SQLRest, signal:AbortSignal) : Promise<any[]>
+	{
+		this.tmowarn = false;
+		this.touched = new Date();
+		if (this.modified) this.modified = new Date();
+
+		let payload:any =
+		{
+			rows: 1,
+			skip: 0,
+			compact: true,
+			describe: false,
+			dateformat: "UTC",
+			session: this.conn$,
+
+			sql: sql.stmt,
+			bindvalues: this.convert(sql.bindvalues)
+		};
+
+		let timeout:number = sql.timeout != null ? sql.timeout : this.timeout$;
+		if (timeout > 0) payload.timeout = timeout;
+
+		this.attributes$.forEach((value,name) =>
+			{payload[name] = value})
+
+		// Runs unnoticed by the user, and fails silently
+		Logger.log(Type.database,"select");
+		let response:any = await this.send("select",payload,true,signal);
+
+		if (!response.success || response.rows?.length != 1)
+			return(null);
+
+		if (response["session"])
+			this.conn$ = response.session;
+
+		return(response.rows[0]);
+	}
+
+	public async fetch(cursor:Cursor, rows?:number, background?:boolean) : Promise<Response>
 	{
+		if (rows > 0)
+			cursor.rows = rows;
+
 		this.tmowarn = false;
 		this.touched = new Date();
 		let restore:boolean = false;
@@ -462,20 +860,40 @@ export class Connection extends BaseConnection
 			let sql:SQLRest = new SQLRest();
 
 			sql.stmt = cursor.stmt;
+			sql.timeout = cursor.timeout;
 			sql.bindvalues = cursor.bindvalues;
 
+			if (cursor.procedure) return(this.refcursor(sql,cursor,cursor.rows,false));
 			return(this.select(sql,cursor,cursor.rows,false));
 		}
 
-		let payload:any = {session: this.conn$, cursor: cursor.name};
+		let payload:any = {session: this.conn$, cursor: cursor.name, rows: cursor.rows};
+		if (cursor.timeout > 0) payload.timeout = cursor.timeout;
 
 		this.attributes$.forEach((value,name) =>
 			{payload[name] = value})
 
+		let query:AbortController = new AbortController();
+		let timer:QueryTimer = new QueryTimer(query,cursor.timeout);
+
+		let thread:number = null;
 		Logger.log(Type.database,"fetch");
-		let thread:number = FormsModule.showLoading("Fetching data");
-		let response:any = await this.post("fetch",payload);
-		FormsModule.hideLoading(thread);
+
+		// Read-ahead runs unnoticed by the user
+		if (!background) this.queries$.add(query);
+		if (!background) thread = FormsModule.showLoading("Fetching data",() => query.abort());
+		let response:any = await this.send("fetch",payload,true,query.signal);
+		if (!background) FormsModule.hideLoading(thread);
+
+		timer.clear();
+
+		this.queries$.delete(query);
+
+		if (response.aborted || response.timedout)
+		{
+			await this.cancelled(cursor,response,timer.expired ? cursor.timeout : null);
+			return(response);
+		}
 
 		if (!response.success)
 		{
@@ -578,7 +996,7 @@ export class Connection extends BaseConnection
 			}
 		}
 
-		this.locks$++;
+		this.addLock();
 		this.tmowarn = false;
 		this.touched = new Date();
 		this.modified = new Date();
@@ -620,7 +1038,7 @@ export class Connection extends BaseConnection
 
 		Logger.log(Type.database,"refresh");
 		let thread:number = FormsModule.showLoading("Refresh row");
-		response = await this.post("select",payload);
+		response = await this.send("select",payload,true);
 		FormsModule.hideLoading(thread);
 
 		if (!response.success)
@@ -657,17 +1075,33 @@ export class Connection extends BaseConnection
 			{payload[entry.name] = entry.value;})
 		}
 
+		let timeout:number = sql.timeout != null ? sql.timeout : this.timeout$;
+		if (timeout > 0) payload.timeout = timeout;
+
 		this.attributes$.forEach((value,name) =>
 			{payload[name] = value})
 
 		this.tmowarn = false;
 		this.touched = new Date();
 
+		let query:AbortController = new AbortController();
+		let timer:QueryTimer = new QueryTimer(query,timeout);
+
 		Logger.log(Type.database,"insert");
 		let thread:number = FormsModule.showLoading("Insert");
-		let response:any = await this.post("insert",payload);
+		let response:any = await this.send("insert",payload,false,query.signal);
 		FormsModule.hideLoading(thread);
 
+		timer.clear();
+
+		if (response.aborted || response.timedout)
+		{
+			// The backend might still apply the statement
+			this.modified = new Date();
+			await this.cancelled(null,response,timer.expired ? timeout : null);
+			return(response);
+		}
+
 		if (!response.success)
 		{
 			Messages.handle(MSGGRP.SQL,response.message,Level.fine);
@@ -712,17 +1146,33 @@ export class Connection extends BaseConnection
 		if (sql.assert)
 			payload.assert = this.convert(sql.assert);
 
+		let timeout:number = sql.timeout != null ? sql.timeout : this.timeout$;
+		if (timeout > 0) payload.timeout = timeout;
+
 		this.attributes$.forEach((value,name) =>
 			{payload[name] = value})
 
 		this.tmowarn = false;
 		this.touched = new Date();
 
+		let query:AbortController = new AbortController();
+		let timer:QueryTimer = new QueryTimer(query,timeout);
+
 		Logger.log(Type.database,"update");
 		let thread:number = FormsModule.showLoading("Update");
-		let response:any = await this.post("update",payload);
+		let response:any = await this.send("update",payload,false,query.signal);
 		FormsModule.hideLoading(thread);
 
+		timer.clear();
+
+		if (response.aborted || response.timedout)
+		{
+			// The backend might still apply the statement
+			this.modified = new Date();
+			await this.cancelled(null,response,timer.expired ? timeout : null);
+			return(response);
+		}
+
 		if (!response.success)
 		{
 			if (response.assert == null)
@@ -740,7 +1190,7 @@ export class Connection extends BaseConnection
 			this.conn$ = response.session;
 
 		if (sql.assert && !this.autocommit$)
-			this.locks$++;
+			this.addLock();
 
 		if (trxstart)
 			await FormEvents.raise(FormEvent.AppEvent(EventType.OnTransaction));
@@ -789,17 +1239,40 @@ export class Connection extends BaseConnection
 			session: this.conn$
 		};
 
+		let timeout:number = this.timeout$;
+
+		steps.forEach((stmt) =>
+		{
+			if (stmt.timeout != null && (timeout == null || stmt.timeout > timeout))
+				timeout = stmt.timeout;
+		})
+
+		if (timeout > 0) script.timeout = timeout;
+
 		if (attributes)
 		{
 			attributes.forEach((entry) =>
 			{script[entry.name] = entry.value;})
 		}
 
+		let query:AbortController = new AbortController();
+		let timer:QueryTimer = new QueryTimer(query,timeout);
+
 		Logger.log(Type.database,"script");
 		let thread:number = FormsModule.showLoading("script");
-		let response:any = await this.post("script",script);
+		let response:any = await this.post("script",script,false,query.signal);
 		FormsModule.hideLoading(thread);
 
+		timer.clear();
+
+		if (response.aborted || response.timedout)
+		{
+			// The backend might still apply the statements
+			this.modified = new Date();
+			await this.cancelled(null,response,timer.expired ? timeout : null);
+			return(response);
+		}
+
 		this.tmowarn = false;
 		this.touched = new Date();
 		this.modified = new Date();
@@ -819,6 +1292,14 @@ export class Connection extends BaseConnection
 		return(response);
 	}
 
+	/** Count a row locked by dml, unless changes are committed right away */
+	public lockRow() : void
+	{
+		if (!this.autocommit$)
+			this.addLock();
+	}
+
+	/** Execute the statements in one request. Null if the backend could not be reached */
 	public async batch(stmts:Step[], attributes?:{name:string, value:object}[]) : Promise<any[]>
 	{
 		if (!stmts || stmts.length == 0)
@@ -877,11 +1358,15 @@ export class Connection extends BaseConnection
 
 		Logger.log(Type.database,"batch");
 		let thread:number = FormsModule.showLoading("batch");
-		let response:any = await this.post("batch",batch);
+		let response:HTTPResponse = await this.measure(false,"batch",batch,false,null);
 		FormsModule.hideLoading(thread);
 
+		// No http status, the request never reached the backend
+		if (response.status == null)
+			return(null);
+
 		let locks:number = this.locks$;
-		let steps:any[] = response.steps;
+		let steps:any[] = response.body?.steps;
 
 		if (!steps || steps.length == 0)
 		{
@@ -893,10 +1378,10 @@ export class Connection extends BaseConnection
 		{
 			let resp:any = steps[i];
 
-			if (resp.success && !this.autocommit$)
+			if (resp.success)
 			{
-				if (stmts[i].path == "update") this.locks$++;
-				else if (stmts[i].path == "delete") this.locks$++;
+				if (stmts[i].path == "update") this.lockRow();
+				else if (stmts[i].path == "delete") this.lockRow();
 			}
 		}
 
@@ -904,8 +1389,8 @@ export class Connection extends BaseConnection
 		this.touched = new Date();
 		this.modified = new Date();
 
-		if (response["session"])
-			this.conn$ = response.session;
+		if (response.body["session"])
+			this.conn$ = response.body.session;
 
 		if (trxstart && this.locks$ > locks)
 			await FormEvents.raise(FormEvent.AppEvent(EventType.OnTransaction));
@@ -932,17 +1417,33 @@ export class Connection extends BaseConnection
 		if (sql.assert)
 			payload.assert = this.convert(sql.assert);
 
+		let timeout:number = sql.timeout != null ? sql.timeout : this.timeout$;
+		if (timeout > 0) payload.timeout = timeout;
+
 		this.attributes$.forEach((value,name) =>
 			{payload[name] = value})
 
 		this.tmowarn = false;
 		this.touched = new Date();
 
+		let query:AbortController = new AbortController();
+		let timer:QueryTimer = new QueryTimer(query,timeout);
+
 		Logger.log(Type.database,"delete");
 		let thread:number = FormsModule.showLoading("Delete");
-		let response:any = await this.post("delete",payload);
+		let response:any = await this.send("delete",payload,false,query.signal);
 		FormsModule.hideLoading(thread);
 
+		timer.clear();
+
+		if (response.aborted || response.timedout)
+		{
+			// The backend might still apply the statement
+			this.modified = new Date();
+			await this.cancelled(null,response,timer.expired ? timeout : null);
+			return(response);
+		}
+
 		if (!response.success)
 		{
 			if (response.assert == null)
@@ -960,7 +1461,7 @@ export class Connection extends BaseConnection
 			this.conn$ = response.session;
 
 		if (sql.assert && !this.autocommit$)
-			this.locks$++;
+			this.addLock();
 
 		if (trxstart)
 			await FormEvents.raise(FormEvent.AppEvent(EventType.OnTransaction));
@@ -983,18 +1484,34 @@ export class Connection extends BaseConnection
 			bindvalues: this.convert(sql.bindvalues)
 		};
 
+		let timeout:number = sql.timeout != null ? sql.timeout : this.timeout$;
+		if (timeout > 0) payload.timeout = timeout;
+
 		this.attributes$.forEach((value,name) =>
 			{payload[name] = value})
 
 		this.tmowarn = false;
 		this.touched = new Date();
 
+		let query:AbortController = new AbortController();
+		let timer:QueryTimer = new QueryTimer(query,timeout);
+
 		Logger.log(Type.database,"call");
 		let thread:number = FormsModule.showLoading("Call procedure");
-		if (patch) response = await this.patch("call",payload);
-		else 		  response = await this.post("call",payload);
+		if (patch) response = await this.patch("call",payload,false,query.signal);
+		else 		  response = await this.post("call",payload,false,query.signal);
 		FormsModule.hideLoading(thread);
 
+		timer.clear();
+
+		if (response.aborted || response.timedout)
+		{
+			// The backend might still apply the changes made by the procedure
+			if (patch) this.modified = new Date();
+			await this.cancelled(null,response,timer.expired ? timeout : null);
+			return(response);
+		}
+
 		if (!response.success)
 		{
 			Messages.handle(MSGGRP.SQL,response.message,Level.fine);
@@ -1031,18 +1548,34 @@ export class Connection extends BaseConnection
 			bindvalues: this.convert(sql.bindvalues)
 		};
 
+		let timeout:number = sql.timeout != null ? sql.timeout : this.timeout$;
+		if (timeout > 0) payload.timeout = timeout;
+
 		this.attributes$.forEach((value,name) =>
 			{payload[name] = value})
 
 		this.tmowarn = false;
 		this.touched = new Date();
 
+		let query:AbortController = new AbortController();
+		let timer:QueryTimer = new QueryTimer(query,timeout);
+
 		Logger.log(Type.database,"execute");
 		let thread:number = FormsModule.showLoading("Execute procedure");
-		if (patch) response = await this.patch("call",payload);
-		else 		  response = await this.post("call",payload);
+		if (patch) response = await this.patch("call",payload,false,query.signal);
+		else 		  response = await this.post("call",payload,false,query.signal);
 		FormsModule.hideLoading(thread);
 
+		timer.clear();
+
+		if (response.aborted || response.timedout)
+		{
+			// The backend might still apply the changes made by the procedure
+			if (patch) this.modified = new Date();
+			await this.cancelled(null,response,timer.expired ? timeout : null);
+			return(response);
+		}
+
 		if (!response.success)
 		{
 			Messages.handle(MSGGRP.SQL,response.message,Level.fine);
@@ -1064,6 +1597,29 @@ export class Connection extends BaseConnection
 		return(response);
 	}
 
+	private async savepointAction(action:string, savepoint:string) : Promise<any>
+	{
+		this.touched = new Date();
+
+		let payload:any =
+		{
+			session: this.conn$,
+			savepoint: savepoint,
+			action: action
+		};
+
+		this.attributes$.forEach((value,name) =>
+			{payload[name] = value})
+
+		Logger.log(Type.database,"savepoint "+action+" "+savepoint);
+		let response:any = await this.send("savepoint",payload,false);
+
+		if (response["session"])
+			this.conn$ = response.session;
+
+		return(response);
+	}
+
 	private get trx() : object
 	{
 		return(this.trx$);
@@ -1125,7 +1681,7 @@ export class Connection extends BaseConnection
 		}
 
 		let conn:string = this.conn$;
-		let response:any = await this.post("ping",{session: this.conn$, keepalive: true});
+		let response:any = await this.send("ping",{session: this.conn$, keepalive: true},true);
 
 		if (this.conn$ != conn)
 		{
@@ -1138,6 +1694,12 @@ export class Connection extends BaseConnection
 
 		if (!response.success)
 		{
+			if (this.recover$ && await this.recoverSession())
+			{
+				this.keepalive();
+				return;
+			}
+
 			this.conn$ = null;
 			Messages.handle(MSGGRP.ORDB,response.message,Level.warn);
 			await FormEvents.raise(FormEvent.AppEvent(EventType.Disconnect));
@@ -1201,6 +1763,232 @@ export class Connection extends BaseConnection
 		this.keepalive();
 	}
 
+	public async post(url?:string|URL, payload?:string|any, raw?:boolean, signal?:AbortSignal) : Promise<any>
+	{
+		return((await this.measure(false,url,payload,raw,signal)).body);
+	}
+
+	public async patch(url?:string|URL, payload?:string|any, raw?:boolean, signal?:AbortSignal) : Promise<any>
+	{
+		return((await this.measure(true,url,payload,raw,signal)).body);
+	}
+
+	private async measure(patch:boolean, url:string|URL, payload:string|any, raw:boolean, signal:AbortSignal) : Promise<HTTPResponse>
+	{
+		let response:HTTPResponse = null;
+		let start:number = Date.now();
+
+		// Serialize once, the size is needed for the statistics
+		if (payload != null && typeof payload != "string")
+			payload = JSON.stringify(payload);
+
+		if (this.tokens$ != null) response = await this.authorized(patch,url,payload,raw,signal);
+		else response = await this.request(patch ? "PATCH" : "POST",url,payload,raw,signal);
+
+		this.statistics$.record(url,payload,response.body,response.size,Date.now()-start);
+		this.publish(false);
+
+		return(response);
+	}
+
+	private publish(force:boolean) : void
+	{
+		if (this.sink$ == null)
+			return;
+
+		let interval:number = this.sink$.interval;
+		if (interval == null) interval = 60;
+
+		if (!force && Date.now() - this.published$ < interval*1000)
+			return;
+
+		this.published$ = Date.now();
+
+		try
+		{
+			this.sink$.publish(this.getStatistics(),this.owner$);
+		}
+		catch (error)
+		{
+			console.error(error);
+		}
+	}
+
+	private addLock() : void
+	{
+		this.locks$++;
+		this.statistics$.locked();
+	}
+
+	private async authorized(patch:boolean, url:string|URL, payload:string|any, raw:boolean, signal:AbortSignal) : Promise<HTTPResponse>
+	{
+		let method:string = patch ? "PATCH" : "POST";
+		let expires:Date = this.token$?.expires;
+		let margin:number = Connection.TOKENREFRESH*1000;
+
+		if (this.token$ == null || (expires && expires.getTime() - margin < Date.now()))
+		{
+			if (!await this.refreshToken())
+			{
+				let response:HTTPResponse = new HTTPResponse();
+
+				response.success = false;
+				response.body = {success: false, message: "Unable to obtain access token"};
+
+				return(response);
+			}
+		}
+
+		let response:HTTPResponse = await this.request(method,url,payload,raw,signal);
+
+		if (response.status == 401 && await this.refreshToken())
+			response = await this.request(method,url,payload,raw,signal);
+
+		return(response);
+	}
+
+	private async refreshToken() : Promise<boolean>
+	{
+		// Concurrent requests share the same refresh
+		if (this.refreshing$ == null)
+		{
+			this.refreshing$ = this.obtainToken(true);
+			this.refreshing$.finally(() => this.refreshing$ = null);
+		}
+
+		return(this.refreshing$);
+	}
+
+	private async obtainToken(refresh:boolean) : Promise<boolean>
+	{
+		let token:AccessToken = null;
+
+		try
+		{
+			Logger.log(Type.database,"obtain token, refresh: "+refresh);
+			token = await this.tokens$(refresh);
+		}
+		catch (error)
+		{
+			console.error(error);
+		}
+
+		let headers:any = {...this.headers};
+
+		if (token?.token == null)
+		{
+			this.token$ = null;
+			delete headers["Authorization"];
+			this.headers = headers;
+
+			Messages.warn(MSGGRP.ORDB,4); // Unable to obtain access token
+
+			if (this.connected())
+			{
+				this.conn$ = null;
+				await FormEvents.raise(FormEvent.AppEvent(EventType.Disconnect));
+			}
+
+			return(false);
+		}
+
+		this.token$ = token;
+		let type:string = token.type ? token.type : "Bearer";
+
+		headers["Authorization"] = type+" "+token.token;
+		this.headers = headers;
+
+		return(true);
+	}
+
+	private async recoverSession() : Promise<boolean>
+	{
+		let lost:boolean = this.modified != null && this.transactional;
+
+		// The old session is gone, cursors will be restored on next fetch
+		this.locks$ = 0;
+		this.conn$ = null;
+		this.touched = null;
+		this.modified = null;
+		this.tmowarn = false;
+		this.trx = new Object();
+
+		let success:boolean = false;
+		Logger.log(Type.database,"recover session");
+
+		if (this.reconnect$ != null)
+			success = await this.reconnect$();
+
+		else
+
+		if (this.credentials$ != null)
+		{
+			let cred:{username:string, password:string, custom:Map<string,any>} = this.credentials$;
+			success = await this.connect(cred.username,cred.password,cred.custom);
+		}
+
+		if (!success || !this.connected())
+			return(false);
+
+		if (lost)
+		{
+			// The database has already rolled back, bring the blocks on this connection back in sync
+			if (await FormBacking.undo(this)) Messages.warn(MSGGRP.ORDB,6); // Connection lost, uncommitted changes rolled back
+			else Messages.warn(MSGGRP.ORDB,8); // Connection lost, uncommitted changes could not be undone
+		}
+		else
+		{
+			Messages.info(MSGGRP.ORDB,5); // Connection lost and re-established
+		}
+
+		return(true);
+	}
+
+	private async cancelled(cursor:Cursor, response:any, timeout?:number) : Promise<void>
+	{
+		if (cursor)
+		{
+			await this.close(cursor);
+			cursor.eof = true;
+		}
+
+		if (timeout != null)
+			response.timedout = true;
+
+		if (!response.timedout) Messages.info(MSGGRP.SQL,4); // Query cancelled
+		else Messages.warn(MSGGRP.SQL,5,timeout != null ? timeout : response.message); // Query timed out
+	}
+
+	private async send(path:string, payload:any, idempotent:boolean, signal?:AbortSignal) : Promise<any>
+	{
+		let attempt:number = 1;
+		let policy:RetryPolicy = this.retry$;
+
+		if (policy == null)
+			return(this.post(path,payload,false,signal));
+
+		// Non idempotent requests can only be replayed if the backend recognizes the key
+		if (!idempotent && this.idempotency$)
+		{
+			idempotent = true;
+			payload["idempotency.key"] = this.conn$+"-"+(Connection.requests$++)+"-"+Date.now();
+		}
+
+		// Other requests might run concurrently, so the outcome is taken from this request
+		let response:HTTPResponse = await this.measure(false,path,payload,false,signal);
+
+		while (!response.success && !response.body?.aborted && idempotent && attempt < policy.attempts)
+		{
+			let wait:number = policy.delay(attempt++);
+			Logger.log(Type.database,"retry "+path+" in "+wait+" ms, attempt "+attempt);
+
+			await FormsModule.sleep(wait);
+			response = await this.measure(false,path,payload,false,signal);
+		}
+
+		return(response.body);
+	}
+
 	private convert(bindv:BindValue[]) : any[]
 	{
 		let binds:any[] = [];
@@ -1225,6 +2013,30 @@ export class Connection extends BaseConnection
 	}
 }
 
+class QueryTimer
+{
+	expired:boolean = false;
+	private timer:any = null;
+
+	constructor(query:AbortController, timeout:number)
+	{
+		if (timeout > 0)
+		{
+			this.timer = setTimeout(() =>
+			{
+				this.expired = true;
+				query.abort();
+			},timeout*1000);
+		}
+	}
+
+	clear() : void
+	{
+		if (this.timer != null)
+			clearTimeout(this.timer);
+	}
+}
+
 export class Response
 {
 	public rows:any[];
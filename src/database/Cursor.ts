@@ -29,6 +29,8 @@ export class Cursor
 	name:string = null;
 	stmt:string = null;
 	eof:boolean = false;
+	procedure:boolean = false;
+	timeout:number = null;
 	bindvalues:BindValue[] = null;
 
 	private static id:number = 0;
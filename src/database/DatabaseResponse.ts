@@ -27,11 +27,13 @@ export class DatabaseResponse
 {
 	private response$:any;
 	private columns$:string[] = [];
+	private inserted$:boolean = null;
 	private converted$:boolean = false;
 
-	constructor(response:any, columns?:string[])
+	constructor(response:any, columns?:string[], inserted?:boolean)
 	{
 		this.response$ = response;
+		this.inserted$ = inserted == null ? null : inserted;
 
 		if (columns != null)
 		{
@@ -46,6 +48,18 @@ export class DatabaseResponse
 		return(!this.response$.success);
 	}
 
+	/** When upserting, whether the row was inserted. Null if not upserted */
+	public get inserted() : boolean
+	{
+		return(this.inserted$);
+	}
+
+	/** When upserting, whether the row was updated. Null if not upserted */
+	public get updated() : boolean
+	{
+		return(this.inserted$ == null ? null : !this.inserted$);
+	}
+
 	/** Get the value of a responed column when using 'returning' */
 	public getValue(column:string) : any
 	{
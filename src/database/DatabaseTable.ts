@@ -23,8 +23,12 @@ import { Cursor } from "./Cursor.js";
 import { SQLRest } from "./SQLRest.js";
 import { DataType } from "./DataType.js";
 import { SQLCache } from "./SQLCache.js";
+import { Paginator } from "./Paginator.js";
+import { SQLDialect } from "./SQLDialect.js";
 import { BindValue } from "./BindValue.js";
 import { SQLSource } from "./SQLSource.js";
+import { Pagination } from "./Pagination.js";
+import { Classes } from "../internal/Classes.js";
 import { MSGGRP } from "../messages/Internal.js";
 import { SQLRestBuilder } from "./SQLRestBuilder.js";
 import { Filter } from "../model/interfaces/Filter.js";
@@ -32,10 +36,13 @@ import { SubQuery } from "../model/filters/SubQuery.js";
 import { Record, RecordState } from "../model/Record.js";
 import { DatabaseResponse } from "./DatabaseResponse.js";
 import { Level, Messages } from "../messages/Messages.js";
+import { ConnectionScope } from "./ConnectionScope.js";
 import { Connection, Step } from "../database/Connection.js";
 import { FilterStructure } from "../model/FilterStructure.js";
+import { FormBacking } from "../application/FormBacking.js";
 import { DatabaseConnection } from "../public/DatabaseConnection.js";
 import { DataSource, LockMode } from "../model/interfaces/DataSource.js";
+import { Aggregate, AggregateFunction } from "../model/interfaces/Aggregate.js";
 
 /**
  * Datasource based on a table/view using OpenRestDB
@@ -43,7 +50,13 @@ import { DataSource, LockMode } from "../model/interfaces/DataSource.js";
 export class DatabaseTable extends SQLSource implements DataSource
 {
 	public name:string;
+	public cache:boolean = false;
+	public upsert:boolean = false;
+	public cachetime:number = 0;
 	public arrayfecth:number = 32;
+	public maxfetch:number = 1024;
+	public readahead:boolean = true;
+	public resolveconflicts:boolean = true;
 	public queryallowed:boolean = true;
 	public insertallowed:boolean = true;
 	public updateallowed:boolean = true;
@@ -54,14 +67,26 @@ export class DatabaseTable extends SQLSource implements DataSource
 	private described$:boolean = false;
 
 	private table$:string = null;
+	private version$:string = null;
 	private order$:string = null;
 	private cursor$:Cursor = null;
+	private timeout$:number = null;
+
+	private paged$:SQLRest = null;
+	private where$:string = null;
+	private pager$:Paginator = null;
+	private pagination$:Pagination = null;
 
 	private columns$:string[] = [];
 	private primary$:string[] = [];
 	private dmlcols$:string[] = [];
+	private tabcols$:string[] = [];
 
 	private fetched$:Record[] = [];
+	private sizer$:FetchSizer = null;
+	private pending$:Promise<Record[]> = null;
+	private counter$:AbortController = null;
+	private aggregator$:AbortController = null;
 
 	private conn$:Connection = null;
 	private nosql$:FilterStructure = null;
@@ -76,24 +101,17 @@ export class DatabaseTable extends SQLSource implements DataSource
 		new Map<string,string>();
 
 	/**
-	 *  @param connection : OpenRestDB connection to a database
+	 *  @param connection : OpenRestDB connection to a database, or the name it is registered under.
+	 *  If null, the form's or application's default connection is used
 	 *  @param table : Database table/view
 	 *  @param columns : Columns from the table/view
 	 */
-	public constructor(connection:DatabaseConnection, table:string, columns?:string|string[])
+	public constructor(connection:DatabaseConnection|string, table:string, columns?:string|string[])
 	{
 		super();
 
-		if (connection == null)
-		{
-			// Cannot create object when onnection is null
-			Messages.severe(MSGGRP.ORDB,2,this.constructor.name);
-			return;
-		}
-
 		this.table$ = table;
-		this.pubconn$ = connection;
-		this.conn$ = connection["conn$"];
+		if (connection != null) this.connection = connection;
 
 		if (columns != null)
 		{
@@ -106,6 +124,35 @@ export class DatabaseTable extends SQLSource implements DataSource
 		this.name = table;
 	}
 
+	/** The connection used by this datasource */
+	public get connection() : DatabaseConnection
+	{
+		return(this.pubconn$);
+	}
+
+	/** The connection, or the name it is registered under. Null means the default connection */
+	public set connection(connection:DatabaseConnection|string)
+	{
+		if (typeof connection === "string")
+		{
+			let name:string = connection;
+			connection = FormBacking.getConnection(name);
+
+			if (connection == null)
+			{
+				// Connection is not registered
+				Messages.severe(MSGGRP.ORDB,7,name);
+				return;
+			}
+		}
+
+		if (connection == null)
+			connection = FormBacking.getConnection();
+
+		this.pubconn$ = connection;
+		this.conn$ = connection ? connection["conn$"] : null;
+	}
+
 	/** Set the table/view */
 	public set table(table:string)
 	{
@@ -124,10 +171,12 @@ export class DatabaseTable extends SQLSource implements DataSource
 	public clear() : void
 	{
 		this.dirty$ = [];
+		this.cancelCount();
 
-		if (this.cursor$ && !this.cursor$.eof)
+		if (this.cursor$ && !this.cursor$.eof && !this.pager$)
 			this.conn$.close(this.cursor$);
 
+		this.pager$ = null;
 		this.cursor$ = null;
 	}
 
@@ -138,8 +187,17 @@ export class DatabaseTable extends SQLSource implements DataSource
 
 		clone.sorting = this.sorting;
 		clone.primary$ = this.primary$;
+		clone.version$ = this.version$;
 		clone.columns$ = this.columns$;
 		clone.described$ = this.described$;
+		clone.timeout$ = this.timeout$;
+		clone.pagination$ = this.pagination$;
+		clone.cache = this.cache;
+		clone.upsert = this.upsert;
+		clone.cachetime = this.cachetime;
+		clone.maxfetch = this.maxfetch;
+		clone.readahead = this.readahead;
+		clone.resolveconflicts = this.resolveconflicts;
 		clone.arrayfecth = this.arrayfecth;
 		clone.datatypes$ = this.datatypes$;
 
@@ -162,6 +220,32 @@ export class DatabaseTable extends SQLSource implements DataSource
 		this.order$ = order;
 	}
 
+	/** How rows are read. Default is keyset for stateless connections, otherwise cursor */
+	public get pagination() : Pagination
+	{
+		if (this.pagination$ != null) return(this.pagination$);
+		if (this.conn$?.scope == ConnectionScope.stateless) return(Pagination.keyset);
+		return(Pagination.cursor);
+	}
+
+	/** How rows are read. Default is keyset for stateless connections, otherwise cursor */
+	public set pagination(strategy:Pagination)
+	{
+		this.pagination$ = strategy;
+	}
+
+	/** Query timeout in seconds, overrides the connection default */
+	public get timeout() : number
+	{
+		return(this.timeout$);
+	}
+
+	/** Query timeout in seconds, overrides the connection default */
+	public set timeout(timeout:number)
+	{
+		this.timeout$ = timeout;
+	}
+
 	/** The columns used by this datasource */
 	public get columns() : string[]
 	{
@@ -199,6 +283,27 @@ export class DatabaseTable extends SQLSource implements DataSource
 		this.primary$ = columns;
 	}
 
+	/** The column used for optimistic locking */
+	public get versionColumn() : string
+	{
+		return(this.version$);
+	}
+
+	/**
+	 * Set a version column, checked instead of all columns when locking, updating and deleting.
+	 * Numeric versions are incremented on update, others must be maintained by the database.
+	 */
+	public set versionColumn(column:string)
+	{
+		if (column != null)
+		{
+			column = column.toLowerCase();
+			this.addColumns(column);
+		}
+
+		this.version$ = column;
+	}
+
 	/** Force a datatype */
 	public setDataType(column:string,type:DataType|string) : DatabaseTable
 	{
@@ -325,6 +430,10 @@ export class DatabaseTable extends SQLSource implements DataSource
 		if (!this.rowlocking)
 			return(true);
 
+		// Rows cannot be locked while disconnected, the changes are asserted when replayed
+		if (!this.conn$.connected() && this.conn$.offline != null)
+			return(true);
+
 		if (!await this.describe())
 			return(false);
 
@@ -334,7 +443,7 @@ export class DatabaseTable extends SQLSource implements DataSource
 		let sql:SQLRest = SQLRestBuilder.lock(this.table$,this.primary$,columns,record);
 		this.setTypes(sql.bindvalues);
 
-		SQLRestBuilder.assert(sql,this.columns,record);
+		SQLRestBuilder.assert(sql,this.asserted(this.columns),record);
 
 		if (sql.assert != null)
 			this.setTypes(sql.assert);
@@ -367,7 +476,7 @@ export class DatabaseTable extends SQLSource implements DataSource
 		if (this.dirty$.length == 0)
 			return([]);
 
-		if (!this.conn$.connected())
+		if (!this.conn$.connected() && this.conn$.offline == null)
 		{
 			// Not connected
 			Messages.severe(MSGGRP.ORDB,3,this.constructor.name);
@@ -380,7 +489,8 @@ export class DatabaseTable extends SQLSource implements DataSource
 		let columns:string[] =
 		this.mergeColumns(this.columns,this.dmlcols$);
 
-		let records:{step:Step, record:Record}[] = [];
+		let dialect:SQLDialect = this.conn$.dialect;
+		let records:FlushedRecord[] = [];
 
 		for (let i = 0; i < this.dirty$.length; i++)
 		{
@@ -390,6 +500,45 @@ export class DatabaseTable extends SQLSource implements DataSource
 			if (rec.failed)
 				continue;
 
+			if (rec.state == RecordState.Insert && this.upsert)
+			{
+				processed.push(rec);
+				rec.response = null;
+
+				let probe:Step = null;
+				sql = SQLRestBuilder.upsert(dialect,this.table$,this.primaryKey,columns,rec,this.insertReturnColumns);
+				this.setTypes(sql.bindvalues);
+
+				// Merge does not tell whether the row existed, so ask first
+				if (dialect == SQLDialect.standard || dialect == SQLDialect.oracle)
+				{
+					let exists:SQLRest = SQLRestBuilder.exists(this.table$,this.primaryKey,rec);
+					this.setTypes(exists.bindvalues);
+
+					probe =
+					{
+						path: "select",
+						stmt: exists.stmt,
+						assert: exists.assert,
+						bindvalues: exists.bindvalues
+					}
+				}
+
+				// Only rows that turn out to be updated are locked
+				records.push({record:rec, upsert: true, probe: probe,
+				step:
+				{
+					path: "insert",
+					stmt: sql.stmt,
+					assert: sql.assert,
+					bindvalues: sql.bindvalues,
+					returnclause: sql.returnclause
+				}
+				});
+			}
+
+			else
+
 			if (rec.state == RecordState.Insert)
 			{
 				processed.push(rec);
@@ -444,7 +593,7 @@ export class DatabaseTable extends SQLSource implements DataSource
 					locking = false;
 
 				if (locking)
-					SQLRestBuilder.assert(sql,columns,rec);
+					SQLRestBuilder.assert(sql,this.asserted(columns),rec);
 
 				records.push({record:rec,
 				step:
@@ -471,7 +620,13 @@ export class DatabaseTable extends SQLSource implements DataSource
 				retcols = this.delreturncolumns$;
 				if (retcols == null) retcols = [];
 
-				sql = SQLRestBuilder.update(this.table$,this.primaryKey,columns,rec,this.updreturncolumns$);
+				let returning:string[] = this.updreturncolumns$;
+
+				// Versions maintained by the database are read back
+				if (this.version$ && !this.increment(rec))
+					returning = this.mergeColumns(returning,[this.version$]);
+
+				sql = SQLRestBuilder.update(this.table$,this.primaryKey,columns,rec,returning);
 				this.setTypes(sql.bindvalues);
 
 				retcols.forEach((col) =>
@@ -486,16 +641,16 @@ export class DatabaseTable extends SQLSource implements DataSource
 					locking = false;
 
 				if (locking)
-					SQLRestBuilder.assert(sql,columns,rec);
+					SQLRestBuilder.assert(sql,this.asserted(columns),rec);
 
-				records.push({record:rec,
+				records.push({record:rec, returning: returning,
 				step:
 				{
 					path: "update",
 					stmt: sql.stmt,
 					assert: sql.assert,
 					bindvalues: sql.bindvalues,
-					returnclause: retcols.length > 0
+					returnclause: retcols.length > 0 || sql.returnclause == true
 				}
 				});
 			}
@@ -503,35 +658,27 @@ export class DatabaseTable extends SQLSource implements DataSource
 
 		let stmts:Step[] = [];
 		records.forEach((record) =>
-		{stmts.push(record.step);})
+		{
+			if (record.probe) stmts.push(record.probe);
+			stmts.push(record.step);
+		})
 
-		let responses:any[] = await this.conn$.batch(stmts);
+		let responses:any[] = null;
 
-		for (let i = 0; i < records.length; i++)
-		{
-			let step:Step = records[i].step;
-			let response:any = responses[i];
-			let record:Record = records[i].record;
+		if (this.conn$.connected())
+			responses = await this.conn$.batch(stmts);
 
-			this.castResponse(response);
+		// Backend not reached, replay the changes when connected again
+		if (responses == null && stmts.length > 0 && this.conn$.offline != null)
+		{
+			await this.conn$.queue(stmts,(replayed) => this.processed(dialect,records,replayed));
 
-			if (step.path == "insert")
-			{
-				record.response = new DatabaseResponse(response,this.insreturncolumns$);
-				await this.process(record,response);
-			}
-			else if (step.path == "update")
-			{
-				record.response = new DatabaseResponse(response,this.updreturncolumns$);
-				await this.process(record,response);
-			}
-			else if (step.path == "delete")
-			{
-				record.response = new DatabaseResponse(response,this.delreturncolumns$);
-				await this.process(record,response);
-			}
+			this.dirty$ = [];
+			return(processed);
 		}
 
+		await this.processed(dialect,records,responses ?? []);
+
 		this.dirty$ = [];
 		return(processed);
 	}
@@ -648,6 +795,10 @@ export class DatabaseTable extends SQLSource implements DataSource
 	/** Execute the query */
 	public async query(filter?:FilterStructure) : Promise<boolean>
 	{
+		await this.settle();
+		this.cancelCount();
+		this.aggregator$?.abort();
+
 		this.fetched$ = [];
 		this.nosql$ = null;
 		filter = filter?.clone();
@@ -695,9 +846,35 @@ export class DatabaseTable extends SQLSource implements DataSource
 		}
 
 		this.createCursor();
+		this.sizer$ = new FetchSizer(this.arrayfecth,this.maxfetch);
+
+		let paging:boolean = !this.cache && this.pagination != Pagination.cursor;
+		let sql:SQLRest = SQLRestBuilder.select(this.table$,this.columns,filter,paging ? null : this.sorting);
+
+		sql.timeout = this.timeout$;
+		let response:any = null;
 
-		let sql:SQLRest = SQLRestBuilder.select(this.table$,this.columns,filter,this.sorting);
-		let response:any = await this.conn$.select(sql,this.cursor$,this.arrayfecth);
+		if (paging)
+		{
+			// The paginator adds the filter to its own where clause
+			this.paged$ = SQLRestBuilder.select(this.table$,this.columns,null,null);
+			this.paged$.timeout = sql.timeout;
+			this.paged$.bindvalues = sql.bindvalues;
+
+			this.where$ = filter && !filter.empty ? filter.asSQL() : null;
+			let keyset:boolean = this.pagination == Pagination.keyset;
+			this.pager$ = new Paginator(this.conn$.dialect,keyset,this.sorting,this.primaryKey,this.columns);
+		}
+
+		if (this.pager$) response = await this.page(this.cursor$,false);
+		else if (this.cache) response = await this.cached(sql);
+		else response = await this.conn$.select(sql,this.cursor$,this.arrayfecth);
+
+		if (response.aborted || response.timedout)
+		{
+			this.cursor$ = null;
+			return(false);
+		}
 
 		this.fetched$ = this.parse(response,this.cursor$);
 		this.fetched$ = await this.filter(this.fetched$);
@@ -720,37 +897,55 @@ export class DatabaseTable extends SQLSource implements DataSource
 			return(fetched);
 		}
 
-		if (this.cursor$.eof)
-			return([]);
+		let fetched:Record[] = null;
 
-		let response:any = await this.conn$.fetch(this.cursor$);
-
-		if (!response.success)
+		if (this.pending$)
 		{
-			this.cursor$ = null;
-			console.error(this.name+" failed to fetch: "+JSON.stringify(response));
-			return([]);
+			fetched = await this.pending$;
+			this.pending$ = null;
 		}
+		else
+		{
+			if (this.cursor$?.eof)
+				return([]);
 
-		let fetched:Record[] = this.parse(response,this.cursor$);
-
-		fetched = await this.filter(fetched);
+			fetched = await this.next(this.cursor$,false);
+		}
 
-		if (fetched.length == 0)
+		if (fetched.length == 0 && this.cursor$ != null)
 			return(this.fetch());
 
 		return(fetched);
 	}
 
+	/** Start fetching the next set of records in the background */
+	public prefetch() : void
+	{
+		if (!this.readahead || this.pending$)
+			return;
+
+		if (this.cursor$ == null || this.cursor$.eof)
+			return;
+
+		if (this.fetched$.length > 0)
+			return;
+
+		this.pending$ = this.next(this.cursor$,true);
+	}
+
 	/** Close the database cursor */
 	public async closeCursor() : Promise<boolean>
 	{
 		let response:any = null;
 
-		if (this.cursor$ && !this.cursor$.eof)
+		await this.settle();
+		this.cancelCount();
+
+		if (this.cursor$ && !this.cursor$.eof && !this.pager$)
 			response = await this.conn$.close(this.cursor$);
 
 		this.fetched$ = [];
+		this.pager$ = null;
 		this.cursor$ = null;
 
 		if (response)
@@ -759,11 +954,173 @@ export class DatabaseTable extends SQLSource implements DataSource
 		return(true);
 	}
 
+	/** Count the rows matching the filter. Returns null if not possible or cancelled */
+	public async count(filter?:FilterStructure) : Promise<number>
+	{
+		this.cancelCount();
+		filter = await this.prepare(filter);
+
+		if (filter == null)
+			return(null);
+
+		let sql:SQLRest = SQLRestBuilder.count(this.table$,filter);
+		sql.timeout = this.timeout$;
+
+		let counter:AbortController = new AbortController();
+		this.counter$ = counter;
+
+		let hits:number = await this.conn$.count(sql,counter.signal);
+
+		if (this.counter$ != counter)
+			return(null);
+
+		this.counter$ = null;
+		return(hits);
+	}
+
+	/** Compute aggregates on the rows matching the filter. Returns null if not possible or cancelled */
+	public async aggregate(aggregates:Aggregate[], filter?:FilterStructure) : Promise<any[]>
+	{
+		this.aggregator$?.abort();
+		filter = await this.prepare(filter);
+
+		if (filter == null)
+			return(null);
+
+		// Columns might come from html attributes, and are only accepted if part of the table
+		let unknown:Aggregate = aggregates.find((aggr) => aggr.column && !this.tabcols$.includes(aggr.column.toLowerCase()));
+
+		if (unknown)
+		{
+			Messages.severe(MSGGRP.SQL,6,unknown.column,this.table$); // Unknown column
+			return(null);
+		}
+
+		let sql:SQLRest = SQLRestBuilder.aggregate(this.table$,aggregates,filter);
+		sql.timeout = this.timeout$;
+
+		let aggregator:AbortController = new AbortController();
+		this.aggregator$ = aggregator;
+
+		let row:any[] = await this.conn$.selectRow(sql,aggregator.signal);
+
+		if (this.aggregator$ != aggregator)
+			return(null);
+
+		this.aggregator$ = null;
+		if (row == null) return(null);
+
+		let datetypes:string[] = ["date", "datetime", "timestamp"];
+
+		for (let i = 0; i < aggregates.length && i < row.length; i++)
+		{
+			let func:AggregateFunction = aggregates[i].function;
+			if (func != AggregateFunction.min && func != AggregateFunction.max) continue;
+
+			let dt:string = this.datatypes$.get(aggregates[i].column?.toLowerCase());
+
+			if (datetypes.includes(dt) && typeof row[i] === "number")
+				row[i] = new Date(row[i]);
+		}
+
+		return(row);
+	}
+
+	/** Cancel counting rows */
+	public cancelCount() : void
+	{
+		this.counter$?.abort();
+		this.counter$ = null;
+	}
+
+	private async prepare(filter:FilterStructure) : Promise<FilterStructure>
+	{
+		filter = filter ? filter.clone() : new FilterStructure();
+
+		if (!this.conn$.connected())
+			return(null);
+
+		if (!await this.describe())
+			return(null);
+
+		if (this.limit$ != null)
+			filter.and(this.limit$,"limit");
+
+		this.setTypes(filter.get("qbe")?.getBindValues());
+		this.setTypes(filter.get("limit")?.getBindValues());
+		this.setTypes(filter.get("masters")?.getBindValues());
+
+		let details:Filter[] = filter.getFilterStructure("details")?.getFilters();
+
+		// Subqueries evaluated client side cannot be used
+		if (details?.find((df) => df instanceof SubQuery && df.subquery == null))
+			return(null);
+
+		return(filter);
+	}
+
+	private async next(cursor:Cursor, background:boolean) : Promise<Record[]>
+	{
+		let response:any = null;
+		let start:number = Date.now();
+
+		if (this.pager$) response = await this.page(cursor,background);
+		else response = await this.conn$.fetch(cursor,this.sizer$?.size,background);
+
+		if (!response.success)
+		{
+			if (this.cursor$ == cursor)
+				this.cursor$ = null;
+
+			if (!response.aborted && !response.timedout)
+				console.error(this.name+" failed to fetch: "+JSON.stringify(response));
+
+			return([]);
+		}
+
+		this.sizer$?.measure(response.rows,Date.now()-start);
+
+		let fetched:Record[] = this.parse(response,cursor);
+		return(this.filter(fetched));
+	}
+
+	private async settle() : Promise<void>
+	{
+		let pending:Promise<Record[]> = this.pending$;
+
+		if (pending)
+		{
+			// Let the read-ahead finish before the cursor is reused
+			await pending;
+			this.pending$ = null;
+		}
+	}
+
+	private async page(cursor:Cursor, background:boolean) : Promise<any>
+	{
+		let rows:number = this.sizer$ ? this.sizer$.size : this.arrayfecth;
+		let sql:SQLRest = this.pager$.page(this.paged$,this.where$,rows);
+
+		this.setTypes(sql.bindvalues);
+		let response:any = await this.conn$.select(sql,null,rows+1,false,background);
+
+		if (response.success)
+		{
+			response.rows = this.pager$.advance(response.rows);
+
+			cursor.eof = this.pager$.eof;
+			cursor.pos += response.rows.length;
+		}
+
+		return(response);
+	}
+
 	private createCursor() : void
 	{
-		if (this.cursor$ && !this.cursor$.eof)
+		if (this.cursor$ && !this.cursor$.eof && !this.pager$)
 			this.conn$.close(this.cursor$);
 
+		this.pager$ = null;
 		this.cursor$ = new Cursor();
 	}
 
@@ -785,6 +1142,24 @@ export class DatabaseTable extends SQLSource implements DataSource
 		return(records);
 	}
 
+	private async cached(sql:SQLRest) : Promise<any>
+	{
+		let response:any = SQLCache.get(this.conn$,sql.stmt,sql.bindvalues);
+
+		if (response)
+		{
+			this.cursor$.eof = true;
+			return(response);
+		}
+
+		response = await this.conn$.selectAll(sql,this.cursor$,this.arrayfecth);
+
+		if (response.success)
+			SQLCache.put(this.conn$,sql.stmt,sql.bindvalues,response,SQLCache.tables(sql.stmt),this.cachetime);
+
+		return(response);
+	}
+
 	private async describe() : Promise<boolean>
 	{
 		let sql:SQLRest = new SQLRest();
@@ -792,7 +1167,7 @@ export class DatabaseTable extends SQLSource implements DataSource
 
 		sql.stmt = "select * from "+this.table$+" where 1 = 2";
 
-		let response:any = SQLCache.get(sql.stmt);
+		let response:any = SQLCache.get(this.conn$,sql.stmt,null);
 
 		let cached:boolean = false;
 		if (response) cached = true;
@@ -801,12 +1176,12 @@ export class DatabaseTable extends SQLSource implements DataSource
 		if (!response.success)
 		{
 			// Unable to describe table
-			Messages.severe(MSGGRP.SQL,3,this.table$,response.message);
+			if (!response.aborted) Messages.severe(MSGGRP.SQL,3,this.table$,response.message);
 			return(false);
 		}
 
 		if (!cached)
-			SQLCache.put(sql.stmt,response);
+			SQLCache.put(this.conn$,sql.stmt,null,response);
 
 		let columns:string[] = response.columns;
 
@@ -821,6 +1196,7 @@ export class DatabaseTable extends SQLSource implements DataSource
 			if (!exist) this.datatypes$.set(columns[i],datatype);
 		}
 
+		this.tabcols$ = columns;
 		this.described$ = response.success;
 		return(this.described$);
 	}
@@ -874,7 +1250,7 @@ export class DatabaseTable extends SQLSource implements DataSource
 				record.setValue(this.columns[c],rows[r][c]);
 			}
 
-			let response:any = {succes: true, rows: [rows[r]]};
+			let response:any = {success: true, rows: [rows[r]]};
 			record.response = new DatabaseResponse(response,this.columns);
 
 			record.cleanup();
@@ -927,12 +1303,46 @@ export class DatabaseTable extends SQLSource implements DataSource
 				if (violations.length > 5)
 					columns += ", ...";
 
+				let cols:string[] = this.mergeColumns(this.columns,this.dmlcols$);
+				cols = cols.filter((col) => col != this.version$);
+
+				let mine:any[] = cols.map((col) => record.getValue(col));
+				let original:any[] = cols.map((col) => record.getInitialValue(col));
+
+				let resolve:boolean = this.resolveconflicts && record.state != RecordState.Delete;
+				if (resolve) resolve = cols.some((_col,i) => !DatabaseTable.equals(mine[i],original[i]));
+
 				await record.block.wrapper.refresh(record);
 				let row:number = record.block.view.displayed(record)?.rownum;
 
 				if (row != null)
 					await record.block.view.refresh(record);
 
+				let theirs:any[] = cols.map((col) => record.getValue(col));
+
+				if (resolve && record.state == RecordState.Consistent)
+					resolve = cols.some((_col,i) => !DatabaseTable.equals(mine[i],theirs[i]));
+				else
+					resolve = false;
+
+				if (resolve)
+				{
+					let params:Map<string,any> = new Map<string,any>();
+
+					params.set("mine",mine);
+					params.set("theirs",theirs);
+					params.set("record",record);
+					params.set("columns",cols);
+					params.set("original",original);
+
+					record.failed = true;
+					record.locked = false;
+
+					// Let the user merge own changes with the database values
+					await FormBacking.showform(Classes.ConflictResolutionClass,FormBacking.getCurrentForm(),params);
+					return(false);
+				}
+
 				if (row == null) Messages.warn(MSGGRP.TRX,9,columns); // Record has been changed by another user
 				else Messages.warn(MSGGRP.TRX,10,row,columns); // Same but with rownum
 			}
@@ -977,6 +1387,99 @@ export class DatabaseTable extends SQLSource implements DataSource
 		return(true);
 	}
 
+	private async processed(dialect:SQLDialect, records:FlushedRecord[], responses:any[]) : Promise<void>
+	{
+		if (records.length > 0)
+			SQLCache.invalidate(this.conn$,this.table$);
+
+		for (let i = 0, r = 0; i < records.length; i++)
+		{
+			let probe:any = null;
+			let step:Step = records[i].step;
+
+			if (records[i].probe)
+				probe = responses[r++];
+
+			let response:any = responses[r++];
+			let record:Record = records[i].record;
+
+			this.castResponse(response);
+
+			if (records[i].upsert)
+			{
+				let inserted:boolean = this.upserted(dialect,response,probe);
+				record.response = new DatabaseResponse(response,this.insreturncolumns$,inserted);
+
+				if (await this.process(record,response) && inserted === false)
+					this.conn$.lockRow();
+			}
+			else if (step.path == "insert")
+			{
+				record.response = new DatabaseResponse(response,this.insreturncolumns$);
+				await this.process(record,response);
+			}
+			else if (step.path == "update")
+			{
+				record.response = new DatabaseResponse(response,records[i].returning);
+
+				if (await this.process(record,response) && records[i].returning != this.updreturncolumns$)
+					record.setValue(this.version$,record.response.getValue(this.version$));
+			}
+			else if (step.path == "delete")
+			{
+				record.response = new DatabaseResponse(response,this.delreturncolumns$);
+				await this.process(record,response);
+			}
+		}
+	}
+
+	private upserted(dialect:SQLDialect, response:any, probe:any) : boolean
+	{
+		if (!response?.success)
+			return(null);
+
+		let row:any = response.rows?.[0];
+		if (row != null && !Array.isArray(row)) row = Object.values(row);
+
+		switch(dialect)
+		{
+			case SQLDialect.postgresql : return(row?.[row.length-1] == true);
+			case SQLDialect.sqlserver  : return((row?.[0]+"").toUpperCase() == "INSERT");
+
+			// 1 when inserted, 2 when updated and 0 when updated without changes
+			case SQLDialect.mysql : return(+response.affected == 1);
+		}
+
+		let count:any = probe?.rows?.[0];
+		if (count != null && !Array.isArray(count)) count = Object.values(count);
+
+		return(!(+count?.[0] > 0));
+	}
+
+	private asserted(columns:string[]) : string[]
+	{
+		if (this.version$ == null) return(columns);
+		return([this.version$]);
+	}
+
+	private increment(record:Record) : boolean
+	{
+		let version:any = record.getInitialValue(this.version$);
+
+		if (version != null && typeof version != "number")
+			return(false);
+
+		record.setValue(this.version$,(version == null ? 0 : version) + 1);
+		return(true);
+	}
+
+	private static equals(value1:any, value2:any) : boolean
+	{
+		if (value1 instanceof Date) value1 = value1.getTime();
+		if (value2 instanceof Date) value2 = value2.getTime();
+		return(value1 == value2);
+	}
+
 	private mergeColumns(list1:string[], list2:string[]) : string[]
 	{
 		let cnames:string[] = [];
@@ -1003,4 +1506,50 @@ export class DatabaseTable extends SQLSource implements DataSource
 
 		return(columns);
 	}
-}
\ No newline at end of file
+}
+
+interface FlushedRecord
+{
+	step:Step;
+	record:Record;
+	probe?:Step;
+	upsert?:boolean;
+	returning?:string[];
+}
+
+class FetchSizer
+{
+	// Aim for round trips of about 250ms and 256kb
+	private static LATENCY:number = 250;
+	private static PAYLOAD:number = 256*1024;
+
+	size:number;
+	private min:number;
+	private max:number;
+
+	constructor(min:number, max:number)
+	{
+		this.min = min;
+		this.size = min;
+		this.max = max > min ? max : min;
+	}
+
+	measure(rows:any[][], elapsed:number) : void
+	{
+		if (rows == null || rows.length == 0)
+			return;
+
+		let rowsize:number = JSON.stringify(rows[0]).length;
+		let size:number = rows.length * FetchSizer.LATENCY / (elapsed > 0 ? elapsed : 1);
+
+		if (size * rowsize > FetchSizer.PAYLOAD)
+			size = FetchSizer.PAYLOAD / rowsize;
+
+		size = Math.round((this.size + size) / 2);
+
+		if (size < this.min) size = this.min;
+		if (size > this.max) size = this.max;
+
+		this.size = size;
+	}
+}
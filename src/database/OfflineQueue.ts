@@ -0,0 +1,327 @@
+/*
+  MIT License
+
+  Copyright © 2023 Alex Høffner
+
+  Permission is hereby granted, free of charge, to any person obtaining a copy of this software
+  and associated documentation files (the “Software”), to deal in the Software without
+  restriction, including without limitation the rights to use, copy, modify, merge, publish,
+  distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the
+  Software is furnished to do so, subject to the following conditions:
+
+  The above copyright notice and this permission notice shall be included in all copies or
+  substantial portions of the Software.
+
+  THE SOFTWARE IS PROVIDED “AS IS”, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING
+  BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+  NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM,
+  DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+  FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+import { BindValue } from "./BindValue.js";
+import { MSGGRP } from "../messages/Internal.js";
+import { Connection, Step } from "./Connection.js";
+import { Level, Messages } from "../messages/Messages.js";
+import { StorageAdapter } from "../model/datasources/storage/StorageAdapter.js";
+
+/**
+ * Durable queue of batches flushed while disconnected.
+ * The batches are replayed in order when the connection is established again,
+ * and each queued transaction is committed or rolled back as a whole.
+ * Batches restored from the storage, e.g. after a reload, are no longer
+ * connected to any records, so their failures are only reported.
+ */
+export class OfflineQueue
+{
+	private key$:string = null;
+	private loaded$:boolean = false;
+	private adapter$:StorageAdapter = null;
+	private replaying$:Promise<boolean> = null;
+	private batches$:QueuedBatch[] = [];
+
+	private static trxid$:number = 0;
+
+	private trxids$:WeakMap<object,string> =
+		new WeakMap<object,string>();
+
+	public constructor(adapter:StorageAdapter, key:string)
+	{
+		this.key$ = key;
+		this.adapter$ = adapter;
+	}
+
+	/** The storage adapter */
+	public get adapter() : StorageAdapter
+	{
+		return(this.adapter$);
+	}
+
+	/** The number of queued statements */
+	public async size() : Promise<number>
+	{
+		await this.load();
+
+		let size:number = 0;
+		this.batches$.forEach((batch) => size += batch.steps.length);
+
+		return(size);
+	}
+
+	/** Queue a batch as part of a transaction. The callback is given the responses when committed */
+	public async add(steps:Step[], trx:object, replayed?:(responses:any[]) => Promise<void>) : Promise<void>
+	{
+		await this.load();
+
+		let id:string = this.trxids$.get(trx);
+
+		if (id == null)
+		{
+			// Unique across reloads, so restored batches are still grouped by transaction
+			id = Date.now()+"-"+(OfflineQueue.trxid$++);
+			this.trxids$.set(trx,id);
+		}
+
+		this.batches$.push(new QueuedBatch(steps,id,replayed));
+		await this.save();
+	}
+
+	/** Discard the batches queued as part of a transaction that is rolled back */
+	public async discard(trx:object) : Promise<void>
+	{
+		let id:string = this.trxids$.get(trx);
+
+		if (id == null)
+			return;
+
+		await this.load();
+
+		let size:number = this.batches$.length;
+		this.batches$ = this.batches$.filter((batch) => batch.trx != id);
+
+		if (this.batches$.length < size)
+			await this.save();
+	}
+
+	/** Discard all queued batches */
+	public async clear() : Promise<void>
+	{
+		this.batches$ = [];
+		this.loaded$ = true;
+
+		await this.adapter$.remove(this.key$);
+	}
+
+	/** Replay the queued batches in order. Returns false if the backend could not be reached or a change failed */
+	public async replay(conn:Connection) : Promise<boolean>
+	{
+		if (this.replaying$ == null)
+		{
+			let done:() => void = () => this.replaying$ = null;
+
+			this.replaying$ = this.execute(conn);
+			this.replaying$.then(done,done);
+		}
+
+		return(this.replaying$);
+	}
+
+	private async execute(conn:Connection) : Promise<boolean>
+	{
+		await this.load();
+
+		while (this.batches$.length > 0)
+		{
+			if (!conn.connected())
+				return(false);
+
+			let trx:string = this.batches$[0].trx;
+			let batches:QueuedBatch[] = this.batches$.filter((batch) => batch.trx == trx);
+
+			if (!await this.transaction(conn,batches))
+				return(false);
+		}
+
+		return(true);
+	}
+
+	// Replay the batches of one transaction. They are kept in the queue until committed
+	private async transaction(conn:Connection, batches:QueuedBatch[]) : Promise<boolean>
+	{
+		let failed:QueuedBatch = null;
+		let reached:boolean = true;
+		let replayed:QueuedBatch[] = [];
+
+		for (let i = 0; i < batches.length; i++)
+		{
+			let responses:any[] = await conn.batch(batches[i].steps);
+
+			// Backend not reached, keep the rest for next time
+			if (responses == null)
+			{
+				reached = false;
+				break;
+			}
+
+			batches[i].responses = responses;
+
+			if (responses.some((response) => !response.success))
+			{
+				failed = batches[i];
+				break;
+			}
+
+			replayed.push(batches[i]);
+		}
+
+		failed?.responses.forEach((response) => OfflineQueue.report(response));
+
+		if (conn.transactional)
+		{
+			if (reached && failed == null && !await conn.commit())
+				reached = false;
+
+			if (!reached || failed != null)
+			{
+				await conn.rollback();
+				replayed = [];
+			}
+
+			// A failed transaction can never be completed
+			if (failed != null)
+				await this.remove(batches);
+		}
+		else if (failed != null)
+		{
+			// Without a transaction, the batches before the failure are committed
+			await this.remove([failed]);
+		}
+
+		await this.remove(replayed);
+
+		for (let i = 0; i < replayed.length; i++)
+		{
+			try
+			{
+				let batch:QueuedBatch = replayed[i];
+
+				if (batch.replayed) await batch.replayed(batch.responses);
+				else batch.responses.forEach((response) => OfflineQueue.report(response));
+			}
+			catch (error)
+			{
+				Messages.handle(MSGGRP.FRAMEWORK,error,Level.severe);
+			}
+		}
+
+		return(reached && failed == null);
+	}
+
+	private async remove(batches:QueuedBatch[]) : Promise<void>
+	{
+		if (batches.length == 0)
+			return;
+
+		this.batches$ = this.batches$.filter((batch) => !batches.includes(batch));
+		await this.save();
+	}
+
+	private async load() : Promise<void>
+	{
+		if (this.loaded$)
+			return;
+
+		let stored:any[] = await this.adapter$.get(this.key$);
+
+		if (!this.loaded$)
+		{
+			this.loaded$ = true;
+			if (stored) this.batches$.unshift(...stored.map((batch) => OfflineQueue.restore(batch)));
+		}
+	}
+
+	private async save() : Promise<void>
+	{
+		if (this.batches$.length == 0) await this.adapter$.remove(this.key$);
+		else await this.adapter$.set(this.key$,this.batches$.map((batch) => OfflineQueue.store(batch)));
+	}
+
+	private static report(response:any) : void
+	{
+		if (response.success)
+			return;
+
+		if (response.violations)
+		{
+			let columns:string = response.violations.map((violation:any) => violation.column).join(", ");
+			Messages.warn(MSGGRP.TRX,9,columns); // Record has been changed by another user
+		}
+		else
+		{
+			let assert:string = response.assert ? " "+response.assert : "";
+			Messages.handle(MSGGRP.TRX,response.message+assert,Level.severe);
+		}
+	}
+
+	private static store(batch:QueuedBatch) : any
+	{
+		let binds:(bindvalues:BindValue[]) => any[] = (bindvalues) => bindvalues?.map((bv) =>
+			({name: bv.name, value: bv.value, type: bv.type, column: bv.column, out: bv.outtype, force: bv.forceDataType}));
+
+		let steps:any[] = batch.steps.map((step) =>
+		({
+			path: step.path,
+			stmt: step.stmt,
+			attributes: step.attributes,
+			returnclause: step.returnclause,
+			assert: binds(step.assert),
+			bindvalues: binds(step.bindvalues)
+		}));
+
+		return({trx: batch.trx, steps: steps});
+	}
+
+	private static restore(stored:any) : QueuedBatch
+	{
+		let datetypes:string[] = ["date", "datetime", "timestamp"];
+
+		let binds:(bindvalues:any[]) => BindValue[] = (bindvalues) => bindvalues?.map((bv) =>
+		{
+			let value:any = bv.value;
+
+			// Dates are stored as json strings
+			if (typeof value === "string" && datetypes.includes(bv.type?.toLowerCase()))
+				value = new Date(value);
+
+			let bindvalue:BindValue = new BindValue(bv.name,value,bv.type);
+
+			bindvalue.outtype = bv.out;
+			bindvalue.column = bv.column;
+			bindvalue.forceDataType = bv.force;
+
+			return(bindvalue);
+		});
+
+		let steps:Step[] = stored.steps.map((entry:any) =>
+		{
+			let step:Step = new Step();
+
+			step.path = entry.path;
+			step.stmt = entry.stmt;
+			step.attributes = entry.attributes;
+			step.returnclause = entry.returnclause;
+			step.assert = binds(entry.assert);
+			step.bindvalues = binds(entry.bindvalues);
+
+			return(step);
+		});
+
+		return(new QueuedBatch(steps,stored.trx,null));
+	}
+}
+
+class QueuedBatch
+{
+	responses:any[] = null;
+	constructor(public steps:Step[], public trx:string, public replayed:(responses:any[]) => Promise<void>) {}
+}
@@ -0,0 +1,240 @@
+/*
+  MIT License
+
+  Copyright © 2023 Alex Høffner
+
+  Permission is hereby granted, free of charge, to any person obtaining a copy of this software
+  and associated documentation files (the “Software”), to deal in the Software without
+  restriction, including without limitation the rights to use, copy, modify, merge, publish,
+  distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the
+  Software is furnished to do so, subject to the following conditions:
+
+  The above copyright notice and this permission notice shall be included in all copies or
+  substantial portions of the Software.
+
+  THE SOFTWARE IS PROVIDED “AS IS”, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING
+  BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+  NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM,
+  DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+  FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+import { SQLRest } from "./SQLRest.js";
+import { BindValue } from "./BindValue.js";
+import { SQLDialect } from "./SQLDialect.js";
+
+/**
+ * Turns a select into bounded pages, using limit/offset or keyset pagination.
+ * Keyset pagination requires the order by clause to be a plain list of
+ * columns. The unique columns are appended to make the order deterministic.
+ * Whenever keyset is not possible, offset is used instead.
+ */
+export class Paginator
+{
+	private rows$:number = 0;
+	private offset$:number = 0;
+	private eof$:boolean = false;
+
+	private order$:string = null;
+	private last$:any[] = null;
+	private keys$:SortKey[] = null;
+	private dialect$:SQLDialect = null;
+
+	public constructor(dialect:SQLDialect, keyset:boolean, sorting:string, unique:string[], columns:string[])
+	{
+		this.dialect$ = dialect;
+
+		if (unique == null) unique = [];
+		columns = columns.map((col) => col.toLowerCase());
+
+		let keys:SortKey[] = Paginator.parse(sorting);
+		let order:string = sorting ? sorting.trim() : "";
+
+		unique.forEach((col) =>
+		{
+			col = col.toLowerCase();
+
+			if (keys) {if (keys.find((key) => key.column == col)) return;}
+			else if (new RegExp("\\b"+col+"\\b","i").test(order)) return;
+
+			if (order.length > 0) order += ", ";
+			order += col;
+
+			keys?.push(new SortKey(col,false));
+		})
+
+		this.order$ = order.length > 0 ? order : null;
+
+		if (!keyset || keys == null || unique.length == 0)
+			return;
+
+		for (let i = 0; i < keys.length; i++)
+		{
+			keys[i].pos = columns.indexOf(keys[i].column);
+			if (keys[i].pos < 0) return;
+		}
+
+		this.keys$ = keys;
+	}
+
+	/** Whether keyset pagination is possible */
+	public get keyset() : boolean
+	{
+		return(this.keys$ != null);
+	}
+
+	/** Whether the last page has been read */
+	public get eof() : boolean
+	{
+		return(this.eof$);
+	}
+
+	/** Build the statement for the next page of rows. The statement must have no where or order by clause, the condition is given separately */
+	public page(sql:SQLRest, condition:string, rows:number) : SQLRest
+	{
+		let paged:SQLRest = new SQLRest();
+
+		paged.stmt = sql.stmt;
+		paged.timeout = sql.timeout;
+		paged.attributes = sql.attributes;
+		paged.bindvalues = sql.bindvalues ? [...sql.bindvalues] : [];
+
+		this.rows$ = rows;
+		let offset:number = this.offset$;
+
+		// The condition is enclosed, so that an 'or' does not bypass the keyset predicate
+		let where:string[] = [];
+		if (condition) where.push("("+condition+")");
+
+		if (this.keys$ && this.last$ && !this.last$.includes(null))
+		{
+			offset = 0;
+			where.push(this.predicate(paged.bindvalues));
+		}
+
+		if (where.length > 0)
+			paged.stmt += " where "+where.join(" and ");
+
+		if (this.order$)
+			paged.stmt += " order by "+this.order$;
+
+		// One extra row tells whether there is more
+		paged.stmt += this.limit(offset,rows+1);
+		return(paged);
+	}
+
+	/** Register the rows read, returns the rows belonging to the page */
+	public advance(rows:any[][]) : any[][]
+	{
+		this.eof$ = rows.length <= this.rows$;
+		if (!this.eof$) rows = rows.slice(0,this.rows$);
+
+		this.offset$ += rows.length;
+
+		if (this.keys$ && rows.length > 0)
+		{
+			let last:any[] = rows[rows.length-1];
+			this.last$ = this.keys$.map((key) => last[key.pos]);
+		}
+
+		return(rows);
+	}
+
+	private predicate(bindvalues:BindValue[]) : string
+	{
+		let ors:string[] = [];
+
+		for (let i = 0; i < this.keys$.length; i++)
+		{
+			let ands:string[] = [];
+
+			for (let j = 0; j <= i; j++)
+			{
+				let key:SortKey = this.keys$[j];
+				let name:string = "keyset"+j;
+
+				if (j < i)
+				{
+					ands.push(key.column+" = :"+name);
+					continue;
+				}
+
+				let cond:string = key.column+(key.descending ? " < " : " > ")+":"+name;
+
+				// Nulls sorted after the last value must still be read
+				if (key.descending != this.nullshigh()) cond = "("+cond+" or "+key.column+" is null)";
+
+				ands.push(cond);
+			}
+
+			ors.push("("+ands.join(" and ")+")");
+		}
+
+		for (let i = 0; i < this.keys$.length; i++)
+		{
+			let bindv:BindValue = new BindValue("keyset"+i,this.last$[i]);
+			bindv.column = this.keys$[i].column;
+			bindvalues.push(bindv);
+		}
+
+		return("("+ors.join(" or ")+")");
+	}
+
+	private nullshigh() : boolean
+	{
+		if (this.dialect$ == SQLDialect.mysql) return(false);
+		if (this.dialect$ == SQLDialect.sqlserver) return(false);
+		return(true);
+	}
+
+	private limit(offset:number, rows:number) : string
+	{
+		switch(this.dialect$)
+		{
+			case SQLDialect.mysql:
+			case SQLDialect.postgresql:
+				return(" limit "+rows+" offset "+offset);
+
+			case SQLDialect.sqlserver:
+				// SQL Server only pages ordered queries
+				if (!this.order$) return(" order by (select null) offset "+offset+" rows fetch next "+rows+" rows only");
+		}
+
+		return(" offset "+offset+" rows fetch next "+rows+" rows only");
+	}
+
+	private static parse(sorting:string) : SortKey[]
+	{
+		let keys:SortKey[] = [];
+
+		if (sorting == null || sorting.trim().length == 0)
+			return(keys);
+
+		let parts:string[] = sorting.split(",");
+
+		for (let i = 0; i < parts.length; i++)
+		{
+			// Only plain columns, nulls first/last cannot be expressed as a keyset
+			let match:RegExpMatchArray = parts[i].trim().match(/^(\w+)(\s+(asc|desc))?$/i);
+			if (match == null) return(null);
+
+			let desc:boolean = match[3]?.toLowerCase() == "desc";
+			keys.push(new SortKey(match[1].toLowerCase(),desc));
+		}
+
+		return(keys);
+	}
+}
+
+class SortKey
+{
+	pos:number = -1;
+	column:string = null;
+	descending:boolean = false;
+
+	constructor(column:string, descending:boolean)
+	{
+		this.column = column;
+		this.descending = descending;
+	}
+}
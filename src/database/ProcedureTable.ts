@@ -0,0 +1,473 @@
+/*
+  MIT License
+
+  Copyright © 2023 Alex Høffner
+
+  Permission is hereby granted, free of charge, to any person obtaining a copy of this software
+  and associated documentation files (the “Software”), to deal in the Software without
+  restriction, including without limitation the rights to use, copy, modify, merge, publish,
+  distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the
+  Software is furnished to do so, subject to the following conditions:
+
+  The above copyright notice and this permission notice shall be included in all copies or
+  substantial portions of the Software.
+
+  THE SOFTWARE IS PROVIDED “AS IS”, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING
+  BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+  NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM,
+  DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+  FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+import { Cursor } from "./Cursor.js";
+import { SQLRest } from "./SQLRest.js";
+import { DataType } from "./DataType.js";
+import { BindValue } from "./BindValue.js";
+import { SQLSource } from "./SQLSource.js";
+import { Record } from "../model/Record.js";
+import { MSGGRP } from "../messages/Internal.js";
+import { Messages } from "../messages/Messages.js";
+import { SQLRestBuilder } from "./SQLRestBuilder.js";
+import { Connection } from "../database/Connection.js";
+import { Filter } from "../model/interfaces/Filter.js";
+import { Parameter, ParameterType } from "./Parameter.js";
+import { FilterStructure } from "../model/FilterStructure.js";
+import { FormBacking } from "../application/FormBacking.js";
+import { DatabaseConnection } from "../public/DatabaseConnection.js";
+import { DataSource, LockMode } from "../model/interfaces/DataSource.js";
+
+/**
+ * Datasource based on a stored procedure returning a ref cursor using OpenRestDB.
+ * Filter values are bound to the procedure parameters with the same name.
+ * All filters are also applied to the fetched rows.
+ */
+export class ProcedureTable extends SQLSource implements DataSource
+{
+	public name:string;
+	public arrayfecth:number = 32;
+	public queryallowed:boolean = true;
+	rowlocking:LockMode = LockMode.None;
+
+	private order$:string = null;
+	private cursor$:Cursor = null;
+	private timeout$:number = null;
+	private procedure$:string = null;
+	private refcursor$:string = "cursor";
+
+	private columns$:string[] = [];
+	private fetched$:Record[] = [];
+	private params$:Parameter[] = [];
+
+	private conn$:Connection = null;
+	private filter$:FilterStructure = null;
+	private limit$:FilterStructure = null;
+	private pubconn$:DatabaseConnection = null;
+
+	private datatypes$:Map<string,DataType> =
+		new Map<string,DataType>();
+
+	/**
+	 *  @param connection : OpenRestDB connection to a database, or the name it is registered under.
+	 *  If null, the form's or application's default connection is used
+	 *  @param procedure : the name of the stored procedure
+	 */
+	public constructor(connection:DatabaseConnection|string, procedure?:string)
+	{
+		super();
+
+		this.procedure$ = procedure;
+		if (connection != null) this.connection = connection;
+
+		this.name = this.constructor.name.toLowerCase();
+	}
+
+	/** The connection used by this datasource */
+	public get connection() : DatabaseConnection
+	{
+		return(this.pubconn$);
+	}
+
+	/** The connection, or the name it is registered under. Null means the default connection */
+	public set connection(connection:DatabaseConnection|string)
+	{
+		if (typeof connection === "string")
+		{
+			let name:string = connection;
+			connection = FormBacking.getConnection(name);
+
+			if (connection == null)
+			{
+				// Connection is not registered
+				Messages.severe(MSGGRP.ORDB,7,name);
+				return;
+			}
+		}
+
+		if (connection == null)
+			connection = FormBacking.getConnection();
+
+		this.pubconn$ = connection;
+		this.conn$ = connection ? connection["conn$"] : null;
+	}
+
+	/** The name of the stored procedure */
+	public get procedure() : string
+	{
+		return(this.procedure$);
+	}
+
+	/** The name of the stored procedure */
+	public set procedure(procedure:string)
+	{
+		this.procedure$ = procedure;
+	}
+
+	/** The name of the out parameter returning the ref cursor */
+	public get cursorParameter() : string
+	{
+		return(this.refcursor$);
+	}
+
+	/** The name of the out parameter returning the ref cursor */
+	public set cursorParameter(name:string)
+	{
+		this.refcursor$ = name;
+	}
+
+	/** Whether the datasource is transactional */
+	public get transactional() : boolean
+	{
+		return(false);
+	}
+
+	/** Closes backend cursor */
+	public clear() : void
+	{
+		if (this.cursor$ && !this.cursor$.eof)
+			this.conn$.close(this.cursor$);
+
+		this.cursor$ = null;
+	}
+
+	/** Clones the datasource */
+	public clone() : ProcedureTable
+	{
+		let clone:ProcedureTable = new ProcedureTable(this.pubconn$,this.procedure$);
+
+		clone.sorting = this.sorting;
+		clone.params$ = this.params$;
+		clone.columns$ = this.columns$;
+		clone.timeout$ = this.timeout$;
+		clone.refcursor$ = this.refcursor$;
+		clone.arrayfecth = this.arrayfecth;
+		clone.datatypes$ = this.datatypes$;
+
+		return(clone);
+	}
+
+	/** The order is decided by the procedure */
+	public get sorting() : string
+	{
+		return(this.order$);
+	}
+
+	/** The order is decided by the procedure */
+	public set sorting(order:string)
+	{
+		this.order$ = order;
+	}
+
+	/** Call timeout in seconds, overrides the connection default */
+	public get timeout() : number
+	{
+		return(this.timeout$);
+	}
+
+	/** Call timeout in seconds, overrides the connection default */
+	public set timeout(timeout:number)
+	{
+		this.timeout$ = timeout;
+	}
+
+	/** Get the column names returned from the procedure */
+	public get columns() : string[]
+	{
+		return(this.columns$);
+	}
+
+	/** Insert is not allowed on this source */
+	public get insertallowed() : boolean
+	{
+		return(false);
+	}
+
+	/** Update is not allowed on this source */
+	public get updateallowed() : boolean
+	{
+		return(false);
+	}
+
+	/** Delete is not allowed on this source */
+	public get deleteallowed() : boolean
+	{
+		return(false);
+	}
+
+	/** Force a datatype */
+	public setDataType(column:string,type:DataType) : ProcedureTable
+	{
+		this.datatypes$.set(column?.toLowerCase(),type);
+		return(this);
+	}
+
+	/** Add call parameter. Filter values on a column with the same name overrides the value */
+	public addParameter(name:string, value:any, datatype?:DataType|string) : ProcedureTable
+	{
+		this.params$.push(new Parameter(name,value,datatype,ParameterType.in));
+		return(this);
+	}
+
+	/** Not possible on this datasource */
+	public addColumns(_columns:string|string[]) : ProcedureTable
+	{
+		return(this);
+	}
+
+	/** Not possible on this datasource */
+	public removeColumns(_columns:string|string[]) : ProcedureTable
+	{
+		return(this);
+	}
+
+	/** Return the default filters */
+	public getFilters() : FilterStructure
+	{
+		return(this.limit$);
+	}
+
+	/** Add a default filter */
+	public addFilter(filter:Filter | FilterStructure) : ProcedureTable
+	{
+		if (this.limit$ == null)
+		{
+			if (filter instanceof FilterStructure)
+			{
+				this.limit$ = filter;
+				return(this);
+			}
+
+			this.limit$ = new FilterStructure();
+		}
+
+		this.limit$.and(filter);
+		return(this);
+	}
+
+	/** Not possible on this datasource */
+	public async lock(_record:Record) : Promise<boolean>
+	{
+		// Cannot lock records on datasource based on a query
+		Messages.severe(MSGGRP.TRX,14);
+		return(false);
+	}
+
+	/** Not possible on this datasource */
+	public async undo() : Promise<Record[]>
+	{
+		return([]);
+	}
+
+	/** Not possible on this datasource */
+	public async flush() : Promise<Record[]>
+	{
+		return([]);
+	}
+
+	/** Not possible on this datasource */
+	public async refresh(record:Record) : Promise<boolean>
+	{
+		record.refresh();
+		return(true);
+	}
+
+	/** Not possible on this datasource */
+	public async insert(_record:Record) : Promise<boolean>
+	{
+		// Cannot insert records on datasource based on a query
+		Messages.severe(MSGGRP.TRX,15);
+		return(false);
+	}
+
+	/** Not possible on this datasource */
+	public async update(_record:Record) : Promise<boolean>
+	{
+		// Cannot update records on datasource based on a query
+		Messages.severe(MSGGRP.TRX,16);
+		return(false);
+	}
+
+	/** Not possible on this datasource */
+	public async delete(_record:Record) : Promise<boolean>
+	{
+		// Cannot delete records on datasource based on a query
+		Messages.severe(MSGGRP.TRX,17);
+		return(false);
+	}
+
+	/** Not possible on this datasource */
+	public async getSubQuery(_filter:FilterStructure, _mstcols:string|string[], _detcols:string|string[]) : Promise<SQLRest>
+	{
+		return(null);
+	}
+
+	/** Call the procedure */
+	public async query(filter?:FilterStructure) : Promise<boolean>
+	{
+		this.fetched$ = [];
+		this.filter$ = null;
+		filter = filter?.clone();
+
+		if (!this.conn$.connected())
+		{
+			// Not connected
+			Messages.severe(MSGGRP.ORDB,3,this.constructor.name);
+			return(false);
+		}
+
+		if (this.limit$ != null)
+		{
+			if (!filter) filter = this.limit$;
+			else filter.and(this.limit$,"limit");
+		}
+
+		if (filter && !filter.empty)
+			this.filter$ = filter;
+
+		this.createCursor();
+
+		let params:Parameter[] = this.bind(filter?.getBindValues());
+		params.push(new Parameter(this.refcursor$,null,"cursor",ParameterType.out));
+
+		let sql:SQLRest = SQLRestBuilder.proc(this.procedure$,params,null);
+
+		sql.timeout = this.timeout$;
+		let response:any = await this.conn$.refcursor(sql,this.cursor$,this.arrayfecth,true);
+
+		if (response.aborted || response.timedout)
+		{
+			this.cursor$ = null;
+			return(false);
+		}
+
+		if (!response.success)
+		{
+			this.cursor$ = null;
+			Messages.severe(MSGGRP.SQL,8,this.procedure$,response.message); // Call to procedure failed
+			return(false);
+		}
+
+		this.describe(response);
+		this.fetched$ = await this.records(this,response,this.columns,this.datatypes$,this.filter$);
+
+		return(true);
+	}
+
+	/** Fetch a set of records */
+	public async fetch() : Promise<Record[]>
+	{
+		if (this.cursor$ == null)
+			return([]);
+
+		if (this.fetched$.length > 0)
+		{
+			let fetched:Record[] = [];
+			fetched.push(...this.fetched$);
+
+			this.fetched$ = [];
+			return(fetched);
+		}
+
+		if (this.cursor$.eof)
+			return([]);
+
+		let response:any = await this.conn$.fetch(this.cursor$);
+
+		let fetched:Record[] = await this.records(this,response,this.columns,this.datatypes$,this.filter$);
+
+		if (fetched == null)
+		{
+			this.cursor$ = null;
+			return([]);
+		}
+
+		if (fetched.length == 0)
+			return(this.fetch());
+
+		return(fetched);
+	}
+
+	/** Close the database cursor */
+	public async closeCursor() : Promise<boolean>
+	{
+		let response:any = null;
+
+		if (this.cursor$ && !this.cursor$.eof)
+			response = await this.conn$.close(this.cursor$);
+
+		this.fetched$ = [];
+		this.cursor$ = null;
+
+		if (response)
+			return(response.success);
+
+		return(true);
+	}
+
+	private bind(bindvalues:BindValue[]) : Parameter[]
+	{
+		let params:Parameter[] = [];
+
+		this.params$.forEach((param) =>
+		{
+			let value:any = param.value;
+			let name:string = param.name.toLowerCase();
+
+			let bindv:BindValue = bindvalues?.find((bv) =>
+				bv.column?.toLowerCase() == name || bv.name?.toLowerCase() == name);
+
+			if (bindv) value = bindv.value;
+			params.push(new Parameter(param.name,value,param.dtype,param.ptype));
+		})
+
+		return(params);
+	}
+
+	private createCursor() : void
+	{
+		if (this.cursor$ && !this.cursor$.eof)
+			this.conn$.close(this.cursor$);
+
+		this.cursor$ = new Cursor();
+	}
+
+	private describe(response:any) : void
+	{
+		if (!response.success || response.columns == null)
+			return;
+
+		let columns:string[] = response.columns;
+
+		for (let i = 0; i < columns.length; i++)
+		{
+			columns[i] = columns[i].toLowerCase();
+
+			let type:string = response.types?.[i];
+			let datatype:DataType = DataType[type?.toLowerCase() as keyof typeof DataType];
+
+			let exist:DataType = this.datatypes$.get(columns[i]);
+			if (!exist && datatype != null) this.datatypes$.set(columns[i],datatype);
+		}
+
+		this.columns$ = columns;
+	}
+}
\ No newline at end of file
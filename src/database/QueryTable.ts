@@ -23,19 +23,23 @@ import { Cursor } from "./Cursor.js";
 import { SQLRest } from "./SQLRest.js";
 import { DataType } from "./DataType.js";
 import { SQLCache } from "./SQLCache.js";
+import { Paginator } from "./Paginator.js";
 import { BindValue } from "./BindValue.js";
 import { SQLSource } from "./SQLSource.js";
+import { Pagination } from "./Pagination.js";
 import { Record } from "../model/Record.js";
 import { MSGGRP } from "../messages/Internal.js";
 import { Messages } from "../messages/Messages.js";
 import { SQLRestBuilder } from "./SQLRestBuilder.js";
+import { ConnectionScope } from "./ConnectionScope.js";
 import { Connection } from "../database/Connection.js";
 import { Filter } from "../model/interfaces/Filter.js";
 import { SubQuery } from "../model/filters/SubQuery.js";
-import { DatabaseResponse } from "./DatabaseResponse.js";
 import { FilterStructure } from "../model/FilterStructure.js";
+import { FormBacking } from "../application/FormBacking.js";
 import { DatabaseConnection } from "../public/DatabaseConnection.js";
 import { DataSource, LockMode } from "../model/interfaces/DataSource.js";
+import { Aggregate, AggregateFunction } from "../model/interfaces/Aggregate.js";
 
 /**
  * Datasource based on a query using OpenRestDB
@@ -43,6 +47,8 @@ import { DataSource, LockMode } from "../model/interfaces/DataSource.js";
 export class QueryTable extends SQLSource implements DataSource
 {
 	public name:string;
+	public cache:boolean = false;
+	public cachetime:number = 0;
 	public arrayfecth:number = 32;
 	public queryallowed:boolean = true;
 	rowlocking:LockMode = LockMode.None;
@@ -52,8 +58,14 @@ export class QueryTable extends SQLSource implements DataSource
 	private sql$:string = null;
 	private order$:string = null;
 	private cursor$:Cursor = null;
+	private timeout$:number = null;
 	private where$:boolean = false;
 
+	private paged$:SQLRest = null;
+	private pager$:Paginator = null;
+	private primary$:string[] = null;
+	private pagination$:Pagination = null;
+
 	private columns$:string[] = [];
 	private fetched$:Record[] = [];
 
@@ -61,28 +73,55 @@ export class QueryTable extends SQLSource implements DataSource
 	private bindings$:BindValue[] = null;
 	private nosql$:FilterStructure = null;
 	private limit$:FilterStructure = null;
+	private counter$:AbortController = null;
+	private aggregator$:AbortController = null;
 	private pubconn$:DatabaseConnection = null;
 
 	private datatypes$:Map<string,DataType> =
 		new Map<string,DataType>();
 
-	/** @param connection : OpenRestDB connection to a database, @param sql : a query */
-	public constructor(connection:DatabaseConnection, sql?:string)
+	/**
+	 *  @param connection : OpenRestDB connection to a database, or the name it is registered under.
+	 *  If null, the form's or application's default connection is used
+	 *  @param sql : a query
+	 */
+	public constructor(connection:DatabaseConnection|string, sql?:string)
 	{
 		super();
 
-		if (connection == null)
+		this.sql$ = sql;
+		if (connection != null) this.connection = connection;
+
+		this.name = this.constructor.name.toLowerCase();
+	}
+
+	/** The connection used by this datasource */
+	public get connection() : DatabaseConnection
+	{
+		return(this.pubconn$);
+	}
+
+	/** The connection, or the name it is registered under. Null means the default connection */
+	public set connection(connection:DatabaseConnection|string)
+	{
+		if (typeof connection === "string")
 		{
-			// Cannot create object when onnection is null
-			Messages.severe(MSGGRP.ORDB,2,this.constructor.name);
-			return;
+			let name:string = connection;
+			connection = FormBacking.getConnection(name);
+
+			if (connection == null)
+			{
+				// Connection is not registered
+				Messages.severe(MSGGRP.ORDB,7,name);
+				return;
+			}
 		}
 
-		this.sql$ = sql;
-		this.pubconn$ = connection;
-		this.conn$ = connection["conn$"];
+		if (connection == null)
+			connection = FormBacking.getConnection();
 
-		this.name = this.constructor.name.toLowerCase();
+		this.pubconn$ = connection;
+		this.conn$ = connection ? connection["conn$"] : null;
 	}
 
 	/** The query */
@@ -101,9 +140,12 @@ export class QueryTable extends SQLSource implements DataSource
 	/** Closes backend cursor */
 	public clear() : void
 	{
-		if (this.cursor$ && !this.cursor$.eof)
+		this.cancelCount();
+
+		if (this.cursor$ && !this.cursor$.eof && !this.pager$)
 			this.conn$.close(this.cursor$);
 
+		this.pager$ = null;
 		this.cursor$ = null;
 	}
 
@@ -116,6 +158,11 @@ export class QueryTable extends SQLSource implements DataSource
 		clone.sorting = this.sorting;
 		clone.columns$ = this.columns$;
 		clone.described$ = this.described$;
+		clone.timeout$ = this.timeout$;
+		clone.primary$ = this.primary$;
+		clone.pagination$ = this.pagination$;
+		clone.cache = this.cache;
+		clone.cachetime = this.cachetime;
 		clone.arrayfecth = this.arrayfecth;
 		clone.datatypes$ = this.datatypes$;
 
@@ -134,6 +181,47 @@ export class QueryTable extends SQLSource implements DataSource
 		this.order$ = order;
 	}
 
+	/** How rows are read. Default is keyset for stateless connections, otherwise cursor */
+	public get pagination() : Pagination
+	{
+		if (this.pagination$ != null) return(this.pagination$);
+		if (this.conn$?.scope == ConnectionScope.stateless) return(Pagination.keyset);
+		return(Pagination.cursor);
+	}
+
+	/** How rows are read. Default is keyset for stateless connections, otherwise cursor */
+	public set pagination(strategy:Pagination)
+	{
+		this.pagination$ = strategy;
+	}
+
+	/** The columns that uniquely identifies a row, needed for keyset pagination */
+	public get primaryKey() : string[]
+	{
+		return(this.primary$);
+	}
+
+	/** The columns that uniquely identifies a row, needed for keyset pagination */
+	public set primaryKey(columns:string|string[])
+	{
+		if (!Array.isArray(columns))
+			columns = [columns];
+
+		this.primary$ = columns;
+	}
+
+	/** Query timeout in seconds, overrides the connection default */
+	public get timeout() : number
+	{
+		return(this.timeout$);
+	}
+
+	/** Query timeout in seconds, overrides the connection default */
+	public set timeout(timeout:number)
+	{
+		this.timeout$ = timeout;
+	}
+
 	/** Get the column names returned from the query */
 	public get columns() : string[]
 	{
@@ -276,6 +364,9 @@ export class QueryTable extends SQLSource implements DataSource
 	/** Execute the query */
 	public async query(filter?:FilterStructure) : Promise<boolean>
 	{
+		this.cancelCount();
+		this.aggregator$?.abort();
+
 		this.fetched$ = [];
 		this.nosql$ = null;
 		filter = filter?.clone();
@@ -323,12 +414,40 @@ export class QueryTable extends SQLSource implements DataSource
 
 		this.createCursor();
 
-		let sql:SQLRest = SQLRestBuilder.finish(this.sql$,this.where$,filter,this.bindings$,this.sorting);
-		let response:any = await this.conn$.select(sql,this.cursor$,this.arrayfecth);
+		let paging:boolean = !this.cache && this.pagination != Pagination.cursor;
+		let sql:SQLRest = SQLRestBuilder.finish(this.sql$,this.where$,filter,this.bindings$,paging ? null : this.sorting);
+
+		sql.timeout = this.timeout$;
+		let response:any = null;
+
+		if (paging)
+		{
+			// The query might be grouped, ordered or use aliases, so it is paged as a subquery
+			this.paged$ = sql;
+			this.paged$.stmt = "select * from ("+sql.stmt+") q";
+			let keyset:boolean = this.pagination == Pagination.keyset;
+			this.pager$ = new Paginator(this.conn$.dialect,keyset,this.sorting,this.primary$,this.columns);
+		}
 
-		this.fetched$ = this.parse(response);
-		this.fetched$ = await this.filter(this.fetched$);
+		if (this.pager$) response = await this.page();
+		else if (this.cache) response = await this.cached(sql);
+		else response = await this.conn$.select(sql,this.cursor$,this.arrayfecth);
 
+		if (response.aborted || response.timedout)
+		{
+			this.cursor$ = null;
+			return(false);
+		}
+
+		let fetched:Record[] = await this.records(this,response,this.columns,this.datatypes$,this.nosql$);
+
+		if (fetched == null)
+		{
+			fetched = [];
+			this.cursor$ = null;
+		}
+
+		this.fetched$ = fetched;
 		return(true);
 	}
 
@@ -350,18 +469,19 @@ export class QueryTable extends SQLSource implements DataSource
 		if (this.cursor$.eof)
 			return([]);
 
-		let response:any = await this.conn$.fetch(this.cursor$);
+		let response:any = null;
 
-		if (!response.success)
+		if (this.pager$) response = await this.page();
+		else response = await this.conn$.fetch(this.cursor$);
+
+		let fetched:Record[] = await this.records(this,response,this.columns,this.datatypes$,this.nosql$);
+
+		if (fetched == null)
 		{
-			console.error(this.name+" failed to fetch: "+JSON.stringify(response));
+			this.cursor$ = null;
 			return([]);
 		}
 
-		let fetched:Record[] = this.parse(response);
-
-		fetched = await this.filter(fetched);
-
 		if (fetched.length == 0)
 			return(this.fetch());
 
@@ -372,11 +492,13 @@ export class QueryTable extends SQLSource implements DataSource
 	public async closeCursor() : Promise<boolean>
 	{
 		let response:any = null;
+		this.cancelCount();
 
-		if (this.cursor$ && !this.cursor$.eof)
+		if (this.cursor$ && !this.cursor$.eof && !this.pager$)
 			response = await this.conn$.close(this.cursor$);
 
 		this.fetched$ = [];
+		this.pager$ = null;
 		this.cursor$ = null;
 
 		if (response)
@@ -385,30 +507,159 @@ export class QueryTable extends SQLSource implements DataSource
 		return(true);
 	}
 
+	/** Count the rows matching the filter. Returns null if not possible or cancelled */
+	public async count(filter?:FilterStructure) : Promise<number>
+	{
+		this.cancelCount();
+		filter = await this.prepare(filter);
+
+		if (filter == null)
+			return(null);
+
+		let sql:SQLRest = SQLRestBuilder.finish(this.sql$,this.where$,filter,this.bindings$,null);
+
+		sql.timeout = this.timeout$;
+		sql.stmt = "select count(*) from ("+sql.stmt+") q";
+
+		let counter:AbortController = new AbortController();
+		this.counter$ = counter;
+
+		let hits:number = await this.conn$.count(sql,counter.signal);
+
+		if (this.counter$ != counter)
+			return(null);
+
+		this.counter$ = null;
+		return(hits);
+	}
+
+	/** Compute aggregates on the rows matching the filter. Returns null if not possible or cancelled */
+	public async aggregate(aggregates:Aggregate[], filter?:FilterStructure) : Promise<any[]>
+	{
+		this.aggregator$?.abort();
+		filter = await this.prepare(filter);
+
+		if (filter == null)
+			return(null);
+
+		// Columns might come from html attributes, and are only accepted if part of the query
+		let unknown:Aggregate = aggregates.find((aggr) => aggr.column && !this.columns$.includes(aggr.column.toLowerCase()));
+
+		if (unknown)
+		{
+			Messages.severe(MSGGRP.SQL,6,unknown.column,this.name); // Unknown column
+			return(null);
+		}
+
+		let sql:SQLRest = SQLRestBuilder.finish(this.sql$,this.where$,filter,this.bindings$,null);
+
+		sql.timeout = this.timeout$;
+		sql.stmt = SQLRestBuilder.aggregate("("+sql.stmt+") q",aggregates,null).stmt;
+
+		let aggregator:AbortController = new AbortController();
+		this.aggregator$ = aggregator;
+
+		let row:any[] = await this.conn$.selectRow(sql,aggregator.signal);
+
+		if (this.aggregator$ != aggregator)
+			return(null);
+
+		this.aggregator$ = null;
+		if (row == null) return(null);
+
+		let datetypes:string[] = ["date", "datetime", "timestamp"];
+
+		for (let i = 0; i < aggregates.length && i < row.length; i++)
+		{
+			let func:AggregateFunction = aggregates[i].function;
+			if (func != AggregateFunction.min && func != AggregateFunction.max) continue;
+
+			let dt:string = DataType[this.datatypes$.get(aggregates[i].column?.toLowerCase())];
+
+			if (datetypes.includes(dt) && typeof row[i] === "number")
+				row[i] = new Date(row[i]);
+		}
+
+		return(row);
+	}
+
+	/** Cancel counting rows */
+	public cancelCount() : void
+	{
+		this.counter$?.abort();
+		this.counter$ = null;
+	}
+
+	private async prepare(filter:FilterStructure) : Promise<FilterStructure>
+	{
+		filter = filter ? filter.clone() : new FilterStructure();
+
+		if (!this.conn$.connected())
+			return(null);
+
+		if (!await this.describe())
+			return(null);
+
+		if (this.limit$ != null)
+			filter.and(this.limit$,"limit");
+
+		this.setTypes(filter.get("qbe")?.getBindValues());
+		this.setTypes(filter.get("limit")?.getBindValues());
+		this.setTypes(filter.get("masters")?.getBindValues());
+
+		let details:Filter[] = filter.getFilterStructure("details")?.getFilters();
+
+		// Subqueries evaluated client side cannot be used
+		if (details?.find((df) => df instanceof SubQuery && df.subquery == null))
+			return(null);
+
+		return(filter);
+	}
+
+	private async page() : Promise<any>
+	{
+		let cursor:Cursor = this.cursor$;
+		let sql:SQLRest = this.pager$.page(this.paged$,null,this.arrayfecth);
+
+		this.setTypes(sql.bindvalues);
+		let response:any = await this.conn$.select(sql,null,this.arrayfecth+1);
+
+		if (response.success)
+		{
+			response.rows = this.pager$.advance(response.rows);
+
+			cursor.eof = this.pager$.eof;
+			cursor.pos += response.rows.length;
+		}
+
+		return(response);
+	}
+
 	private createCursor() : void
 	{
-		if (this.cursor$ && !this.cursor$.eof)
+		if (this.cursor$ && !this.cursor$.eof && !this.pager$)
 			this.conn$.close(this.cursor$);
 
+		this.pager$ = null;
 		this.cursor$ = new Cursor();
 	}
 
-	private async filter(records:Record[]) : Promise<Record[]>
+	private async cached(sql:SQLRest) : Promise<any>
 	{
-		if (this.nosql$)
+		let response:any = SQLCache.get(this.conn$,sql.stmt,sql.bindvalues);
+
+		if (response)
 		{
-			let passed:Record[] = [];
+			this.cursor$.eof = true;
+			return(response);
+		}
 
-			for (let i = 0; i < records.length; i++)
-			{
-				if (await this.nosql$.evaluate(records[i]))
-					passed.push(records[i]);
-			}
+		response = await this.conn$.selectAll(sql,this.cursor$,this.arrayfecth);
 
-			records = passed;
-		}
+		if (response.success)
+			SQLCache.put(this.conn$,sql.stmt,sql.bindvalues,response,SQLCache.tables(sql.stmt),this.cachetime);
 
-		return(records);
+		return(response);
 	}
 
 	private async describe() : Promise<boolean>
@@ -419,7 +670,7 @@ export class QueryTable extends SQLSource implements DataSource
 		let stmt:string = this.sql$ + first + " 1 = 2";
 		let sql:SQLRest = SQLRestBuilder.finish(stmt,this.where$,null,this.bindings$,null);
 
-		let response:any = SQLCache.get(sql.stmt);
+		let response:any = SQLCache.get(this.conn$,sql.stmt,sql.bindvalues);
 
 		let cached:boolean = false;
 		if (response) cached = true;
@@ -428,12 +679,12 @@ export class QueryTable extends SQLSource implements DataSource
 		if (!response.success)
 		{
 			// Unable to describe query
-			Messages.warn(MSGGRP.SQL,3);
+			if (!response.aborted) Messages.warn(MSGGRP.SQL,3);
 			return(false);
 		}
 
 		if (!cached)
-			SQLCache.put(sql.stmt,response);
+			SQLCache.put(this.conn$,sql.stmt,sql.bindvalues,response);
 
 		let columns:string[] = response.columns;
 
@@ -463,50 +714,4 @@ export class QueryTable extends SQLSource implements DataSource
 			if (!b.forceDataType && t != null) b.type = DataType[t];
 		})
 	}
-
-	private parse(response:any) : Record[]
-	{
-		let fetched:Record[] = [];
-		let rows:any[][] = response.rows;
-
-		if (!response.success)
-		{
-			this.cursor$ = null;
-			return(fetched);
-		}
-
-		let dates:boolean[] = [];
-		let datetypes:DataType[] = [DataType.date, DataType.datetime, DataType.timestamp];
-
-		for (let c = 0; c < this.columns.length; c++)
-		{
-			let dt:DataType = this.datatypes$.get(this.columns[c].toLowerCase());
-			if (datetypes.includes(dt)) dates.push(true);
-			else dates.push(false);
-		}
-
-		for (let r = 0; r < rows.length; r++)
-		{
-			let record:Record = new Record(this);
-
-			for (let c = 0; c < rows[r].length; c++)
-			{
-				if (rows[r][c] && dates[c])
-				{
-					if (typeof rows[r][c] === "number")
-						rows[r][c] = new Date(+rows[r][c]);
-				}
-
-				record.setValue(this.columns[c],rows[r][c]);
-			}
-
-			let response:any = {succes: true, rows: [rows[r]]};
-			record.response = new DatabaseResponse(response,this.columns);
-
-			record.cleanup();
-			fetched.push(record);
-		}
-
-		return(fetched);
-	}
 }
\ No newline at end of file
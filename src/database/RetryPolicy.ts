@@ -0,0 +1,66 @@
+/*
+  MIT License
+
+  Copyright © 2023 Alex Høffner
+
+  Permission is hereby granted, free of charge, to any person obtaining a copy of this software
+  and associated documentation files (the “Software”), to deal in the Software without
+  restriction, including without limitation the rights to use, copy, modify, merge, publish,
+  distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the
+  Software is furnished to do so, subject to the following conditions:
+
+  The above copyright notice and this permission notice shall be included in all copies or
+  substantial portions of the Software.
+
+  THE SOFTWARE IS PROVIDED “AS IS”, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING
+  BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+  NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM,
+  DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+  FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+/**
+ * Retry policy for requests that failed to reach the backend.
+ * Only idempotent requests (select, fetch, ping) are retried, unless the
+ * backend acknowledges idempotency keys, in which case DML and commit are retried as well.
+ *
+ * The wait before attempt n+1 is backoff * factor^(n-1), capped at maxdelay.
+ * With jitter, the wait is randomly reduced by up to jitter*100 percent.
+ */
+export class RetryPolicy
+{
+	/** Maximum number of attempts, including the first */
+	public attempts:number = 3;
+
+	/** Wait in ms before the first retry */
+	public backoff:number = 250;
+
+	/** Multiplier applied to the wait for each retry */
+	public factor:number = 2;
+
+	/** Maximum wait in ms between attempts */
+	public maxdelay:number = 4000;
+
+	/** Random reduction of the wait, between 0 and 1 */
+	public jitter:number = 0.5;
+
+	public constructor(attempts?:number, backoff?:number)
+	{
+		if (attempts != null) this.attempts = attempts;
+		if (backoff != null) this.backoff = backoff;
+	}
+
+	/** The wait in ms after a given failed attempt (starting with 1) */
+	public delay(attempt:number) : number
+	{
+		let wait:number = this.backoff * Math.pow(this.factor,attempt-1);
+		if (wait > this.maxdelay) wait = this.maxdelay;
+
+		let jitter:number = this.jitter;
+
+		if (jitter < 0) jitter = 0;
+		if (jitter > 1) jitter = 1;
+
+		return(Math.round(wait * (1 - jitter * Math.random())));
+	}
+}
@@ -19,42 +19,177 @@
   FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
 */
 
+import { BindValue } from "./BindValue.js";
+import { Connection } from "./Connection.js";
+
+/**
+ * Least recently used cache of query results.
+ * Entries are keyed on connection, sql and bindvalues, and are
+ * invalidated when the tables involved are modified.
+ */
 export class SQLCache
 {
+	/** The size budget, approximated from the JSON representation */
+	public static maxsize:number = 4*1024*1024;
+
+	private static size$:number = 0;
+	private static connections$:number = 0;
+
+	private static ids$:WeakMap<Connection,number> =
+		new WeakMap<Connection,number>();
+
 	private static cache$:Map<string,Entry> =
 		new Map<string,Entry>();
 
+	/** Get a cached response, null if not cached or expired */
+	public static get(connection:Connection, sql:string, bindvalues?:BindValue[]) : any
+	{
+		let key:string = SQLCache.key(connection,sql,bindvalues);
+		let entry:Entry = SQLCache.cache$.get(key);
+
+		if (entry == null)
+			return(null);
+
+		SQLCache.cache$.delete(key);
+
+		if (entry.expires && Date.now() > entry.expires)
+		{
+			SQLCache.size$ -= entry.size;
+			return(null);
+		}
+
+		// Most recently used is kept last
+		SQLCache.cache$.set(key,entry);
+		return(SQLCache.copy(entry.response));
+	}
+
+	/** Cache a response. Tables are used for invalidation, ttl is in seconds */
+	public static put(connection:Connection, sql:string, bindvalues:BindValue[], response:any, tables?:string[], ttl?:number) : void
+	{
+		let key:string = SQLCache.key(connection,sql,bindvalues);
+		let size:number = 2 * (key.length + JSON.stringify(response).length);
+
+		SQLCache.remove(key);
+
+		if (size > SQLCache.maxsize)
+			return;
+
+		let entry:Entry = new Entry(SQLCache.id(connection),SQLCache.copy(response),size);
+
+		if (ttl > 0) entry.expires = Date.now() + ttl*1000;
+		if (tables) entry.tables = tables.map((table) => SQLCache.normalize(table));
+
+		SQLCache.size$ += size;
+		SQLCache.cache$.set(key,entry);
+
+		// Evict least recently used
+		while (SQLCache.size$ > SQLCache.maxsize)
+			SQLCache.remove(SQLCache.cache$.keys().next().value);
+	}
+
+	/** Remove the responses from the connection involving the table, or all tables if not specified */
+	public static invalidate(connection:Connection, table?:string) : void
+	{
+		let id:number = SQLCache.id(connection);
+		if (table) table = SQLCache.normalize(table);
+
+		[...SQLCache.cache$.entries()].forEach(([key,entry]) =>
+		{
+			if (entry.connection != id || entry.tables.length == 0)
+				return;
+
+			if (table == null || entry.tables.includes(table))
+				SQLCache.remove(key);
+		})
+	}
+
+	/** Remove all entries */
+	public static clear() : void
+	{
+		SQLCache.size$ = 0;
+		SQLCache.cache$.clear();
+	}
 
-	public static get(sql:string,maxage?:number) : any
+	/** The tables and views referenced in the from and join clauses */
+	public static tables(sql:string) : string[]
 	{
-		let entry:Entry = SQLCache.cache$.get(sql);
+		let tables:string[] = [];
+		let clause:RegExp = /\b(?:from|join)\s+([\w.$#"]+(?:\s+(?:as\s+)?\w+)?(?:\s*,\s*[\w.$#"]+(?:\s+(?:as\s+)?\w+)?)*)/gi;
 
-		if (maxage && maxage > 0)
+		for (let match of sql.matchAll(clause))
 		{
-			let now:number = new Date().getTime();
-			if (now > entry.timestamp + maxage)
+			match[1].split(",").forEach((source) =>
 			{
-				SQLCache.cache$.delete(sql);
-				return(null);
-			}
+				let table:string = SQLCache.normalize(source.trim().split(/\s+/)[0]);
+				if (table.length > 0 && !tables.includes(table)) tables.push(table);
+			})
 		}
 
-		return(entry?.response);
+		return(tables);
 	}
 
-	public static put(sql:string,response:any) : void
+	private static remove(key:string) : void
 	{
-		SQLCache.cache$.set(sql,new Entry(response));
+		let entry:Entry = SQLCache.cache$.get(key);
+
+		if (entry)
+		{
+			SQLCache.size$ -= entry.size;
+			SQLCache.cache$.delete(key);
+		}
 	}
 
-	public clear() : void
+	private static key(connection:Connection, sql:string, bindvalues:BindValue[]) : string
 	{
-		SQLCache.cache$.clear();
+		sql = SQLCache.id(connection)+"\n"+sql;
+
+		if (!bindvalues || bindvalues.length == 0)
+			return(sql);
+
+		let binds:any[] = bindvalues.map((b) =>
+		{
+			let value:any = b.value;
+			if (value instanceof Date) value = value.getTime();
+			return([b.name?.toLowerCase(),value,b.type]);
+		})
+
+		binds.sort((b1,b2) => (b1[0] < b2[0] ? -1 : b1[0] > b2[0] ? 1 : 0));
+		return(sql+"\n"+JSON.stringify(binds));
+	}
+
+	// The same query on different databases gives different results
+	private static id(connection:Connection) : number
+	{
+		let id:number = SQLCache.ids$.get(connection);
+
+		if (id == null)
+		{
+			id = ++SQLCache.connections$;
+			SQLCache.ids$.set(connection,id);
+		}
+
+		return(id);
+	}
+
+	private static normalize(table:string) : string
+	{
+		table = table.replace(/"/g,"").toLowerCase();
+		return(table.substring(table.lastIndexOf(".")+1));
+	}
+
+	private static copy(response:any) : any
+	{
+		if (!Array.isArray(response?.rows))
+			return(response);
+
+		let rows:any[] = response.rows.map((row:any) => Array.isArray(row) ? [...row] : {...row});
+		return({...response, rows: rows});
 	}
 }
 
 class Entry
 {
-	timestamp:number = new Date().getTime();
-	constructor(public response:any) {};
-}
\ No newline at end of file
+	expires:number = 0;
+	tables:string[] = [];
+	constructor(public connection:number, public response:any, public size:number) {};
+}
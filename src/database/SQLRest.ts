@@ -24,6 +24,7 @@ import { BindValue } from "./BindValue";
 export class SQLRest
 {
 	public stmt:string = "";
+	public timeout?:number;
 	public assert:BindValue[];
 	public returnclause?:boolean;
 	public bindvalues:BindValue[];
@@ -21,11 +21,13 @@
 
 import { SQLRest } from "./SQLRest.js";
 import { BindValue } from "./BindValue.js";
+import { SQLDialect } from "./SQLDialect.js";
 import { Record } from "../model/Record.js";
 import { Filters } from "../model/filters/Filters.js";
 import { Filter } from "../model/interfaces/Filter.js";
 import { Parameter, ParameterType } from "./Parameter.js";
 import { FilterStructure } from "../model/FilterStructure.js";
+import { Aggregate, AggregateFunction } from "../model/interfaces/Aggregate.js";
 
 export class SQLRestBuilder
 {
@@ -100,6 +102,49 @@ export class SQLRestBuilder
 		return(parsed);
 	}
 
+	public static count(table:string, filter:FilterStructure) : SQLRest
+	{
+		let parsed:SQLRest =
+			new SQLRest();
+
+		let stmt:string = "select count(*) from "+table;
+
+		if (filter && !filter.empty)
+			stmt += " where " + filter.asSQL();
+
+		parsed.stmt = stmt;
+		parsed.bindvalues = filter?.getBindValues();
+
+		return(parsed);
+	}
+
+	public static aggregate(table:string, aggregates:Aggregate[], filter:FilterStructure) : SQLRest
+	{
+		let parsed:SQLRest =
+			new SQLRest();
+
+		let stmt:string = "select ";
+
+		for (let i = 0; i < aggregates.length; i++)
+		{
+			let column:string = aggregates[i].column;
+			let func:string = AggregateFunction[aggregates[i].function];
+
+			if (i > 0) stmt += ",";
+			stmt += func+"("+(column ? column : "*")+")";
+		}
+
+		stmt += " from "+table;
+
+		if (filter && !filter.empty)
+			stmt += " where " + filter.asSQL();
+
+		parsed.stmt = stmt;
+		parsed.bindvalues = filter?.getBindValues();
+
+		return(parsed);
+	}
+
 	public static finish(sql:string, where:boolean, filter:FilterStructure, bindings:BindValue[], order:string) : SQLRest
 	{
 		let parsed:SQLRest = new SQLRest();
@@ -302,6 +347,113 @@ export class SQLRestBuilder
 		return(parsed);
 	}
 
+	public static upsert(dialect:SQLDialect, table:string, pkey:string[], columns:string[], record:Record, returncolumns:string[]) : SQLRest
+	{
+		if (pkey == null || pkey.length == 0)
+			throw "@SQLRestBuilder: Upsert into '"+table+"' requires a primary key";
+
+		let binds:BindValue[] = [];
+		let parsed:SQLRest = new SQLRest();
+
+		let keys:string[] = [];
+		pkey.forEach((col) => keys.push(col.toLowerCase()));
+
+		let values:string[] = [];
+		let updates:string[] = [];
+
+		for (let i = 0; i < columns.length; i++)
+		{
+			values.push(":"+columns[i]);
+			binds.push(new BindValue(columns[i],record.getValue(columns[i])));
+
+			if (!keys.includes(columns[i].toLowerCase()))
+				updates.push(columns[i]);
+		}
+
+		let stmt:string = null;
+		let collist:string = columns.join(",");
+
+		switch(dialect)
+		{
+			case SQLDialect.postgresql :
+			{
+				// Without columns to update, a dummy update makes the row returned
+				if (updates.length == 0) updates.push(pkey[0]);
+
+				stmt = "insert into "+table+"("+collist+") values ("+values.join(",")+")";
+				stmt += " on conflict ("+pkey.join(",")+") do update set ";
+				stmt += updates.map((col) => col+" = excluded."+col).join(", ");
+
+				let returning:string[] = [];
+				if (returncolumns) returning.push(...returncolumns);
+
+				// xmax is 0 for rows that were inserted
+				returning.push("(xmax = 0) as inserted");
+
+				stmt += " returning "+returning.join(",");
+				parsed.returnclause = true;
+				break;
+			}
+
+			case SQLDialect.mysql :
+			{
+				if (updates.length == 0) updates.push(pkey[0]);
+
+				stmt = "insert into "+table+"("+collist+") values ("+values.join(",")+")";
+				stmt += " on duplicate key update ";
+				stmt += updates.map((col) => col+" = values("+col+")").join(", ");
+				break;
+			}
+
+			default :
+			{
+				let source:string = null;
+
+				if (dialect == SQLDialect.oracle)
+					source = "(select "+columns.map((col) => ":"+col+" "+col).join(", ")+" from dual) s";
+				else
+					source = "(values ("+values.join(",")+")) as s("+collist+")";
+
+				stmt = "merge into "+table+" d using "+source;
+				stmt += " on ("+pkey.map((col) => "d."+col+" = s."+col).join(" and ")+")";
+
+				if (updates.length > 0)
+					stmt += " when matched then update set "+updates.map((col) => col+" = s."+col).join(", ");
+
+				stmt += " when not matched then insert ("+collist+") values ("+columns.map((col) => "s."+col).join(",")+")";
+
+				if (dialect == SQLDialect.sqlserver)
+				{
+					stmt += " output $action as action;";
+					parsed.returnclause = true;
+				}
+			}
+		}
+
+		parsed.stmt = stmt;
+		parsed.bindvalues = binds;
+
+		return(parsed);
+	}
+
+	public static exists(table:string, pkey:string[], record:Record) : SQLRest
+	{
+		let parsed:SQLRest = new SQLRest();
+		let filters:FilterStructure = new FilterStructure();
+
+		for (let i = 0; i < pkey.length; i++)
+		{
+			let filter:Filter = Filters.Equals(pkey[i]);
+			let value:any = record.getValue(pkey[i]);
+			filters.and(filter.setConstraint(value),pkey[i]);
+		}
+
+		parsed.stmt = "select count(*) from "+table+" where "+filters.asSQL();
+		parsed.bindvalues = filters.getBindValues();
+
+		return(parsed);
+	}
+
 	public static delete(table:string, pkey:string[], record:Record, returncolumns:string[]) : SQLRest
 	{
 		let parsed:SQLRest = new SQLRest();
@@ -20,7 +20,14 @@
 */
 
 import { SQLRest } from "./SQLRest.js";
+import { DataType } from "./DataType.js";
+import { Record } from "../model/Record.js";
+import { MSGGRP } from "../messages/Internal.js";
+import { Messages } from "../messages/Messages.js";
+import { DatabaseResponse } from "./DatabaseResponse.js";
 import { FilterStructure } from "../model/FilterStructure.js";
+import { DataSource } from "../model/interfaces/DataSource.js";
+import { DatabaseConnection } from "../public/DatabaseConnection.js";
 
 /**
  * Additional interface for database based datasource
@@ -28,4 +35,66 @@ import { FilterStructure } from "../model/FilterStructure.js";
 export abstract class SQLSource
 {
 	abstract getSubQuery(filter:FilterStructure, mstcols:string|string[], detcols:string|string[]) : Promise<SQLRest>;
-}
\ No newline at end of file
+
+	/** The connection, null until resolved */
+	abstract get connection() : DatabaseConnection;
+
+	/** The connection, or the name it is registered under. Null means the default connection */
+	abstract set connection(connection:DatabaseConnection|string);
+
+	/** Create records from the rows read, and apply the filters that could not be sent to the database. Null if the read failed */
+	protected async records(source:DataSource, response:any, columns:string[], datatypes:Map<string,DataType>, filter:FilterStructure) : Promise<Record[]>
+	{
+		if (!response.success)
+		{
+			// Cancelled and timed out queries have already been reported
+			if (!response.aborted && !response.timedout)
+				Messages.severe(MSGGRP.SQL,7,source.name,response.message); // Query failed
+
+			return(null);
+		}
+
+		let dates:boolean[] = [];
+		let fetched:Record[] = [];
+		let rows:any[][] = response.rows;
+		let datetypes:DataType[] = [DataType.date, DataType.datetime, DataType.timestamp];
+
+		for (let c = 0; c < columns.length; c++)
+		{
+			let dt:DataType = datatypes.get(columns[c].toLowerCase());
+			dates.push(datetypes.includes(dt));
+		}
+
+		for (let r = 0; r < rows.length; r++)
+		{
+			let record:Record = new Record(source);
+
+			for (let c = 0; c < rows[r].length; c++)
+			{
+				// Dates are sent as milliseconds since epoch
+				if (rows[r][c] && dates[c] && typeof rows[r][c] === "number")
+					rows[r][c] = new Date(+rows[r][c]);
+
+				record.setValue(columns[c],rows[r][c]);
+			}
+
+			record.response = new DatabaseResponse({success: true, rows: [rows[r]]},columns);
+
+			record.cleanup();
+			fetched.push(record);
+		}
+
+		if (filter == null)
+			return(fetched);
+
+		let passed:Record[] = [];
+
+		for (let i = 0; i < fetched.length; i++)
+		{
+			if (await filter.evaluate(fetched[i]))
+				passed.push(fetched[i]);
+		}
+
+		return(passed);
+	}
+}
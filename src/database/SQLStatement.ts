@@ -27,6 +27,7 @@ import { Connection } from "./Connection.js";
 import { MSGGRP } from "../messages/Internal.js";
 import { Messages } from "../messages/Messages.js";
 import { DatabaseResponse } from "./DatabaseResponse.js";
+import { FormBacking } from "../application/FormBacking.js";
 import { DatabaseConnection } from "../public/DatabaseConnection.js";
 
 /**
@@ -44,6 +45,7 @@ export class SQLStatement
 	private types:string[] = null;
 	private cursor$:Cursor = null;
 	private patch$:boolean = false;
+	private timeout$:number = null;
 	private message$:string = null;
 	private arrayfecth$:number = 1;
 	private records$:any[][] = null;
@@ -53,9 +55,25 @@ export class SQLStatement
 	private retvals:DatabaseResponse = null;
 	private bindvalues$:Map<string,BindValue> = new Map<string,BindValue>();
 
-	/** @param connection : A connection to OpenRestDB */
-	public constructor(connection:DatabaseConnection)
+	/** @param connection : A connection to OpenRestDB, or the name it is registered under. Null means the default connection */
+	public constructor(connection?:DatabaseConnection|string)
 	{
+		if (typeof connection === "string")
+		{
+			let name:string = connection;
+			connection = FormBacking.getConnection(name);
+
+			if (connection == null)
+			{
+				// Connection is not registered
+				Messages.severe(MSGGRP.ORDB,7,name);
+				return;
+			}
+		}
+
+		if (connection == null)
+			connection = FormBacking.getConnection();
+
 		if (connection == null)
 		{
 			// Cannot create object when onnection is null
@@ -121,6 +139,18 @@ export class SQLStatement
 		this.arrayfecth$ = size;
 	}
 
+	/** Statement timeout in seconds, overrides the connection default */
+	public get timeout() : number
+	{
+		return(this.timeout$);
+	}
+
+	/** Statement timeout in seconds, overrides the connection default */
+	public set timeout(timeout:number)
+	{
+		this.timeout$ = timeout;
+	}
+
 	/** The error message from the backend */
 	public error() : string
 	{
@@ -155,6 +185,7 @@ export class SQLStatement
 		if (this.returning$) sql.returnclause = true;
 
 		sql.stmt = this.sql$;
+		sql.timeout = this.timeout$;
 		sql.bindvalues = [...this.bindvalues$.values()];
 
 		if (this.type$ == "select" || this.returning$)
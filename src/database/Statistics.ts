@@ -0,0 +1,151 @@
+/*
+  MIT License
+
+  Copyright © 2023 Alex Høffner
+
+  Permission is hereby granted, free of charge, to any person obtaining a copy of this software
+  and associated documentation files (the “Software”), to deal in the Software without
+  restriction, including without limitation the rights to use, copy, modify, merge, publish,
+  distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the
+  Software is furnished to do so, subject to the following conditions:
+
+  The above copyright notice and this permission notice shall be included in all copies or
+  substantial portions of the Software.
+
+  THE SOFTWARE IS PROVIDED “AS IS”, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING
+  BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+  NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM,
+  DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+  FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+import { ConnectionStatistics, Latency, RequestStatistics } from "../public/ConnectionStatistics.js";
+
+/**
+ * Collects request metrics for a connection
+ */
+export class Statistics
+{
+	public static SAMPLES:number = 1000;
+
+	private locks$:number = 0;
+	private started$:Date = new Date();
+
+	private paths$:Map<string,PathMetrics> =
+		new Map<string,PathMetrics>();
+
+	public reset() : void
+	{
+		this.locks$ = 0;
+		this.paths$.clear();
+		this.started$ = new Date();
+	}
+
+	public locked() : void
+	{
+		this.locks$++;
+	}
+
+	public record(url:string|URL, payload:string, response:any, size:number, elapsed:number) : void
+	{
+		let path:string = url ? url.toString() : "";
+
+		path = path.substring(path.lastIndexOf("/")+1).toLowerCase();
+		if (path.includes("?")) path = path.substring(0,path.indexOf("?"));
+
+		let metrics:PathMetrics = this.paths$.get(path);
+
+		if (metrics == null)
+		{
+			metrics = new PathMetrics();
+			this.paths$.set(path,metrics);
+		}
+
+		metrics.requests++;
+		metrics.bytesout += payload ? payload.length : 0;
+
+		// The size is measured on the response text, when received over HTTP
+		if (size != null) metrics.bytesin += size;
+
+		if (Array.isArray(response?.rows))
+			metrics.rows += response.rows.length;
+
+		if (response == null || response.success === false)
+			metrics.errors++;
+
+		metrics.latencies.push(elapsed);
+
+		if (metrics.latencies.length > Statistics.SAMPLES)
+			metrics.latencies.shift();
+	}
+
+	public snapshot(held:number) : ConnectionStatistics
+	{
+		let latencies:number[] = [];
+		let stats:ConnectionStatistics = new ConnectionStatistics();
+
+		stats.held = held;
+		stats.locks = this.locks$;
+		stats.collected = new Date();
+		stats.started = this.started$;
+
+		this.paths$.forEach((metrics,path) =>
+		{
+			let req:RequestStatistics = new RequestStatistics();
+
+			req.path = path;
+			req.rows = metrics.rows;
+			req.errors = metrics.errors;
+			req.requests = metrics.requests;
+			req.bytesin = metrics.bytesin;
+			req.bytesout = metrics.bytesout;
+			req.latency = Statistics.latency(metrics.latencies);
+
+			stats.rows += req.rows;
+			stats.errors += req.errors;
+			stats.requests += req.requests;
+			stats.bytesin += req.bytesin;
+			stats.bytesout += req.bytesout;
+
+			stats.paths.push(req);
+			latencies.push(...metrics.latencies);
+		})
+
+		stats.latency = Statistics.latency(latencies);
+		return(stats);
+	}
+
+	private static latency(samples:number[]) : Latency
+	{
+		let sum:number = 0;
+		let sorted:number[] = [...samples].sort((a,b) => a-b);
+
+		if (sorted.length == 0)
+			return({min: 0, max: 0, avg: 0, p50: 0, p90: 0, p99: 0});
+
+		sorted.forEach((ms) => sum += ms);
+
+		let pct:(p:number) => number = (p) =>
+			sorted[Math.min(sorted.length-1,Math.ceil(p/100 * sorted.length)-1)];
+
+		return(
+		{
+			min: sorted[0],
+			max: sorted[sorted.length-1],
+			avg: Math.round(sum/sorted.length),
+			p50: pct(50),
+			p90: pct(90),
+			p99: pct(99)
+		});
+	}
+}
+
+class PathMetrics
+{
+	rows:number = 0;
+	errors:number = 0;
+	requests:number = 0;
+	bytesin:number = 0;
+	bytesout:number = 0;
+	latencies:number[] = [];
+}
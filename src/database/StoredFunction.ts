@@ -29,8 +29,8 @@ import { DatabaseConnection } from "../public/DatabaseConnection.js";
  */
 export class StoredFunction extends StoredProcedure
 {
-	/** @param connection : A connection to OpenRestDB */
-	public constructor(connection:DatabaseConnection)
+	/** @param connection : A connection to OpenRestDB, or the name it is registered under. Null means the default connection */
+	public constructor(connection?:DatabaseConnection|string)
 	{
 		super(connection);
 		super.returntype$ = "string";
@@ -26,6 +26,7 @@ import { MSGGRP } from "../messages/Internal.js";
 import { Messages } from "../messages/Messages.js";
 import { SQLRestBuilder } from "./SQLRestBuilder.js";
 import { Parameter, ParameterType } from "./Parameter.js";
+import { FormBacking } from "../application/FormBacking.js";
 import { DatabaseConnection } from "../public/DatabaseConnection.js";
 
 /**
@@ -37,6 +38,7 @@ export class StoredProcedure
 	private name$:string;
 	private response$:any = null;
 	private patch$:boolean = false;
+	private timeout$:number = null;
 	private message$:string = null;
 	private conn$:Connection = null;
 	private params$:Parameter[] = [];
@@ -46,9 +48,25 @@ export class StoredProcedure
 	protected retparm$:string = null;
 	protected returntype$:DataType|string = null;
 
-	/** @param connection : A connection to OpenRestDB */
-	public constructor(connection:DatabaseConnection)
+	/** @param connection : A connection to OpenRestDB, or the name it is registered under. Null means the default connection */
+	public constructor(connection?:DatabaseConnection|string)
 	{
+		if (typeof connection === "string")
+		{
+			let name:string = connection;
+			connection = FormBacking.getConnection(name);
+
+			if (connection == null)
+			{
+				// Connection is not registered
+				Messages.severe(MSGGRP.ORDB,7,name);
+				return;
+			}
+		}
+
+		if (connection == null)
+			connection = FormBacking.getConnection();
+
 		if (connection == null)
 		{
 			// Cannot create object when onnection is null
@@ -65,6 +83,18 @@ export class StoredProcedure
 		this.patch$ = flag;
 	}
 
+	/** Call timeout in seconds, overrides the connection default */
+	public get timeout() : number
+	{
+		return(this.timeout$);
+	}
+
+	/** Call timeout in seconds, overrides the connection default */
+	public set timeout(timeout:number)
+	{
+		this.timeout$ = timeout;
+	}
+
 	/** The error message from the backend */
 	public error() : string
 	{
@@ -128,6 +158,8 @@ export class StoredProcedure
 		}
 
 		let sql:SQLRest = SQLRestBuilder.proc(this.name$,this.params$,retparam);
+
+		sql.timeout = this.timeout$;
 		this.response$ = await this.conn$.call(this.patch$,sql);
 
 		if (!this.response$.success)
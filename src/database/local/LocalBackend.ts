@@ -0,0 +1,841 @@
+/*
+  MIT License
+
+  Copyright © 2023 Alex Høffner
+
+  Permission is hereby granted, free of charge, to any person obtaining a copy of this software
+  and associated documentation files (the “Software”), to deal in the Software without
+  restriction, including without limitation the rights to use, copy, modify, merge, publish,
+  distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the
+  Software is furnished to do so, subject to the following conditions:
+
+  The above copyright notice and this permission notice shall be included in all copies or
+  substantial portions of the Software.
+
+  THE SOFTWARE IS PROVIDED “AS IS”, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING
+  BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+  NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM,
+  DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+  FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+import { DataType } from "../DataType.js";
+import { Record } from "../../model/Record.js";
+import { Transport } from "../../public/Transport.js";
+import { HTTPRequest } from "../../public/Interceptor.js";
+import { FilterStructure } from "../../model/FilterStructure.js";
+import { MemoryTable } from "../../model/datasources/MemoryTable.js";
+import { LocalSQL, Statement, Expression, Select, Insert, Update, Delete, Call, Scope } from "./LocalSQL.js";
+
+/**
+ * A procedure or function callable through the LocalBackend.
+ * The parameters holds the in-parameters by name. Return an object
+ * with the out-parameters, or, for a function, just the value.
+ */
+export interface LocalProcedure
+{
+	(parameters:Map<string,any>) : Promise<any>;
+}
+
+/**
+ * In-process stand-in for an OpenRestDB server.
+ *
+ * Set it as transport on a DatabaseConnection, and DatabaseTable, QueryTable etc.
+ * runs unchanged against in-memory tables. Rows touched by a transaction are locked
+ * until commit or rollback, and other sessions sees the committed values only.
+ * Lock conflicts are reported immediately, as with nowait.
+ */
+export class LocalBackend implements Transport
+{
+	/** Session timeout, in seconds, reported to the client */
+	public timeout:number = 60;
+
+	private seq$:number = 0;
+
+	private tables$:Map<string,LocalTable> =
+		new Map<string,LocalTable>();
+
+	private sessions$:Map<string,Session> =
+		new Map<string,Session>();
+
+	private procedures$:Map<string,LocalProcedure> =
+		new Map<string,LocalProcedure>();
+
+	/** Create a table with the columns and data of the MemoryTable. Types defaults to the type of the first non null value */
+	public async addTable(name:string, source:MemoryTable, types?:Map<string,DataType|string>) : Promise<void>
+	{
+		let data:any[][] = [];
+		let columns:string[] = [];
+
+		source.columns.forEach((col) => columns.push(col.toLowerCase()));
+		await source.query(new FilterStructure());
+
+		let records:Record[] = await source.fetch();
+
+		while(records.length > 0)
+		{
+			records.forEach((rec) =>
+			{
+				let row:any[] = [];
+				columns.forEach((col) => row.push(rec.getValue(col)));
+				data.push(row);
+			})
+
+			records = await source.fetch();
+		}
+
+		let table:LocalTable = new LocalTable(name,columns);
+
+		for (let c = 0; c < columns.length; c++)
+		{
+			let type:DataType|string = types?.get(columns[c]);
+			if (typeof type === "number") type = DataType[type];
+
+			if (type == null)
+			{
+				let value:any = data.find((row) => row[c] != null)?.[c];
+
+				if (value instanceof Date) type = "date";
+				else if (typeof value === "number") type = "numeric";
+				else if (typeof value === "boolean") type = "boolean";
+				else type = "varchar";
+			}
+
+			table.types.push(type.toLowerCase());
+		}
+
+		data.forEach((row) =>
+		{
+			let values:any[] = row.map((value) => value instanceof Date ? value.getTime() : value);
+			table.rows.push(new LocalRow(table,values));
+		})
+
+		this.tables$.set(name.toLowerCase(),table);
+	}
+
+	/** Remove a table */
+	public dropTable(name:string) : void
+	{
+		this.tables$.delete(name.toLowerCase());
+	}
+
+	/** Get the committed rows of a table */
+	public getRows(name:string) : any[][]
+	{
+		let table:LocalTable = this.getTable(name);
+
+		let rows:any[][] = [];
+		table.rows.forEach((row) => {if (row.values) rows.push([...row.values])});
+
+		return(rows);
+	}
+
+	/** Make a procedure or function callable */
+	public addProcedure(name:string, procedure:LocalProcedure) : void
+	{
+		this.procedures$.set(name.toLowerCase(),procedure);
+	}
+
+	/** Remove a procedure or function */
+	public removeProcedure(name:string) : void
+	{
+		this.procedures$.delete(name.toLowerCase());
+	}
+
+	/** Handle a request, as an OpenRestDB server would */
+	public async send(request:HTTPRequest) : Promise<any>
+	{
+		let payload:any = {};
+
+		if (request.payload)
+			payload = JSON.parse(request.payload);
+
+		return(this.dispatch(request.path,payload));
+	}
+
+	private async dispatch(path:string, payload:any) : Promise<any>
+	{
+		try
+		{
+			return(await this.handle(path,payload));
+		}
+		catch (error)
+		{
+			return({success: false, message: ""+error});
+		}
+	}
+
+	private async handle(path:string, payload:any) : Promise<any>
+	{
+		if (path == "connect")
+			return(this.connect(payload));
+
+		let session:Session = this.sessions$.get(payload.session);
+
+		if (session == null)
+			return({success: false, message: "Session '"+payload.session+"' does not exist"});
+
+		switch(path)
+		{
+			case "ping" 		: return({success: true});
+			case "release" 	: return({success: true});
+			case "disconnect" : return(this.disconnect(session));
+			case "commit" 		: return(this.commit(session));
+			case "rollback" 	: return(this.rollback(session));
+			case "prepare" 	: return(this.prepare(session));
+			case "savepoint" 	: return(this.savepoint(session,payload));
+			case "fetch" 		: return(this.fetch(session,payload));
+			case "batch" 		: return(this.batch(session,payload.batch));
+			case "script" 		: return(this.batch(session,payload.script));
+			case "select" 		:
+			case "insert" 		:
+			case "update" 		:
+			case "delete" 		:
+			case "call" 		: return(this.execute(session,payload));
+		}
+
+		return({success: false, message: "Unknown request '"+path+"'"});
+	}
+
+	private connect(payload:any) : any
+	{
+		let session:Session = new Session("local-"+(++this.seq$),payload.scope);
+		this.sessions$.set(session.id,session);
+
+		let response:any =
+		{
+			success: true,
+			nowait: true,
+			twophase: true,
+			version: "local",
+			session: session.id,
+			timeout: this.timeout,
+			autocommit: session.autocommit
+		};
+
+		return(response);
+	}
+
+	private disconnect(session:Session) : any
+	{
+		this.rollback(session);
+		this.sessions$.delete(session.id);
+		return({success: true});
+	}
+
+	private commit(session:Session) : any
+	{
+		let done:Set<LocalRow> = new Set<LocalRow>();
+
+		session.journal.forEach((entry) =>
+		{
+			let row:LocalRow = entry.row;
+
+			if (done.has(row) || row.owner != session)
+				return;
+
+			done.add(row);
+
+			if (row.deleted) row.remove();
+			else if (row.pending) row.values = row.pending;
+
+			row.owner = null;
+			row.pending = null;
+			row.deleted = false;
+		})
+
+		session.journal = [];
+		session.prepared = false;
+		session.savepoints.clear();
+
+		return({success: true});
+	}
+
+	private rollback(session:Session) : any
+	{
+		this.restore(session,0);
+
+		session.prepared = false;
+		session.savepoints.clear();
+
+		return({success: true});
+	}
+
+	private prepare(session:Session) : any
+	{
+		session.prepared = true;
+		return({success: true});
+	}
+
+	private savepoint(session:Session, payload:any) : any
+	{
+		let name:string = payload.savepoint;
+		let mark:number = session.savepoints.get(name);
+
+		if (payload.action == "set")
+		{
+			session.savepoints.delete(name);
+			session.savepoints.set(name,session.journal.length);
+			return({success: true});
+		}
+
+		if (mark == null)
+			return({success: false, message: "Savepoint '"+name+"' does not exist"});
+
+		let found:boolean = false;
+
+		[...session.savepoints.keys()].forEach((savepoint) =>
+		{
+			if (found) session.savepoints.delete(savepoint);
+			if (savepoint == name) found = true;
+		})
+
+		if (payload.action == "release") session.savepoints.delete(name);
+		else this.restore(session,mark);
+
+		return({success: true});
+	}
+
+	private fetch(session:Session, payload:any) : any
+	{
+		let cursor:LocalCursor = session.cursors.get(payload.cursor);
+
+		if (payload.close)
+		{
+			session.cursors.delete(payload.cursor);
+			return({success: true});
+		}
+
+		if (cursor == null)
+			return({success: false, message: "Cursor '"+payload.cursor+"' does not exist"});
+
+		let rows:any[][] = cursor.next(+payload.rows);
+		if (!cursor.more) session.cursors.delete(payload.cursor);
+
+		return({success: true, more: cursor.more, rows: this.format(rows,cursor.columns,cursor.compact)});
+	}
+
+	private async batch(session:Session, steps:{path:string, payload:any}[]) : Promise<any>
+	{
+		let success:boolean = true;
+		let responses:any[] = [];
+
+		for (let i = 0; i < steps.length; i++)
+		{
+			if (!success)
+			{
+				responses.push({success: false, message: "Not executed, previous step failed"});
+				continue;
+			}
+
+			let payload:any = {...steps[i].payload, session: session.id};
+			let response:any = await this.dispatch(steps[i].path,payload);
+
+			if (!response.success)
+				success = false;
+
+			responses.push(response);
+		}
+
+		return({success: success, steps: responses});
+	}
+
+	private async execute(session:Session, payload:any) : Promise<any>
+	{
+		let binds:Map<string,any> = new Map<string,any>();
+		let stmt:Statement = LocalSQL.parse(payload.sql);
+
+		payload.bindvalues?.forEach((bindv:any) =>
+			{binds.set(bindv.name.toLowerCase(),bindv.value === undefined ? null : bindv.value)});
+
+		if (stmt instanceof Select) return(this.select(session,stmt,binds,payload));
+		if (stmt instanceof Call) return(this.call(stmt,binds));
+
+		let response:any = null;
+		let mark:number = session.journal.length;
+
+		try
+		{
+			if (stmt instanceof Insert) response = this.insert(session,stmt,binds);
+			else response = this.modify(session,stmt,binds,payload.assert);
+		}
+		catch (error)
+		{
+			// Statement level rollback
+			this.restore(session,mark);
+			throw error;
+		}
+
+		if (response.success && session.autocommit)
+			this.commit(session);
+
+		return(response);
+	}
+
+	private select(session:Session, stmt:Select, binds:Map<string,any>, payload:any) : any
+	{
+		let result:Result = this.query(session,stmt,binds);
+
+		if (stmt.forupdate && session.autocommit)
+			return({success: false, message: "Cannot lock rows without a transaction"});
+
+		if (stmt.forupdate)
+		{
+			if (result.matched.length == 0 && payload.assert)
+				return({success: false, lock: true, rows: []});
+
+			let failure:any = this.check(session,result,payload.assert);
+			if (failure != null) return(failure);
+
+			result.matched.forEach((row) => this.lock(session,row));
+		}
+
+		let skip:number = payload.skip ? +payload.skip : 0;
+		let rows:number = payload.rows ? +payload.rows : 0;
+
+		let compact:boolean = payload.compact == true;
+		let end:number = rows > 0 ? skip + rows : result.rows.length;
+		let more:boolean = end < result.rows.length;
+
+		if (more && payload.cursor && !session.autocommit)
+		{
+			let cursor:LocalCursor = new LocalCursor(result.rows.slice(end),rows,result.columns,compact);
+			session.cursors.set(payload.cursor,cursor);
+		}
+
+		let response:any =
+		{
+			success: true,
+			more: more,
+			rows: this.format(result.rows.slice(skip,end),result.columns,compact)
+		};
+
+		if (payload.describe)
+		{
+			response.columns = result.columns;
+			response.types = result.types;
+		}
+
+		return(response);
+	}
+
+	private insert(session:Session, stmt:Insert, binds:Map<string,any>) : any
+	{
+		let table:LocalTable = this.getTable(stmt.table);
+		let scope:Scope = this.scope(session,table,binds);
+
+		let values:any[] = table.columns.map(() => null);
+
+		for (let i = 0; i < stmt.columns.length; i++)
+		{
+			let pos:number = table.columns.indexOf(stmt.columns[i]);
+
+			if (pos < 0)
+				throw "Column '"+stmt.columns[i]+"' does not exist";
+
+			values[pos] = stmt.values[i].evaluate(scope);
+		}
+
+		let row:LocalRow = new LocalRow(table,null);
+
+		session.journal.push(new Entry(row));
+		table.rows.push(row);
+
+		row.owner = session;
+		row.pending = values;
+
+		return(this.affected(table,[row],session,stmt.returning));
+	}
+
+	private modify(session:Session, stmt:Update|Delete, binds:Map<string,any>, assert:any[]) : any
+	{
+		let table:LocalTable = this.getTable(stmt.table);
+		let matched:LocalRow[] = this.match(session,table,stmt.where,binds);
+
+		let result:Result = new Result();
+
+		result.table = table;
+		result.matched = matched;
+
+		let failure:any = this.check(session,result,assert);
+		if (failure != null) return(failure);
+
+		let scope:Scope = this.scope(session,table,binds);
+
+		matched.forEach((row) =>
+		{
+			let values:any[] = [...row.visible(session)];
+			this.lock(session,row);
+
+			if (stmt instanceof Delete)
+			{
+				row.deleted = true;
+				return;
+			}
+
+			scope.values = values;
+			let updated:any[] = [...values];
+
+			stmt.set.forEach((entry) =>
+			{
+				let pos:number = table.columns.indexOf(entry.column);
+
+				if (pos < 0)
+					throw "Column '"+entry.column+"' does not exist";
+
+				updated[pos] = entry.expr.evaluate(scope);
+			})
+
+			row.pending = updated;
+		})
+
+		return(this.affected(table,matched,session,stmt.returning));
+	}
+
+	private async call(stmt:Call, binds:Map<string,any>) : Promise<any>
+	{
+		let procedure:LocalProcedure = this.procedures$.get(stmt.name.toLowerCase());
+
+		if (procedure == null)
+			return({success: false, message: "Procedure '"+stmt.name+"' does not exist"});
+
+		let params:Map<string,any> = new Map<string,any>();
+
+		stmt.params.forEach((param) =>
+		{
+			if (param.out) params.set(param.name,null);
+			else params.set(param.name,binds.get(param.name.toLowerCase()));
+		})
+
+		let result:any = await procedure(params);
+		let response:any = {success: true};
+
+		if (stmt.retval != null && (result == null || typeof result !== "object"))
+			result = {[stmt.retval]: result};
+
+		return({...result, ...response});
+	}
+
+	private query(session:Session, stmt:Select, binds:Map<string,any>) : Result
+	{
+		let result:Result = new Result();
+		let table:LocalTable = stmt.from ? this.derived(session,stmt.from,binds) : this.getTable(stmt.table);
+
+		result.table = table;
+		result.matched = this.match(session,table,stmt.where,binds);
+
+		let scope:Scope = this.scope(session,table,binds);
+		let rows:any[][] = result.matched.map((row) => row.visible(session));
+
+		if (stmt.items == null)
+		{
+			result.types = [...table.types];
+			result.columns = [...table.columns];
+			result.rows = rows.map((row) => [...row]);
+		}
+		else
+		{
+			result.columns = stmt.items.map((item) => item.name);
+
+			if (stmt.aggregate)
+			{
+				scope.group = rows;
+				result.matched = [];
+				result.rows = [stmt.items.map((item) => item.evaluate(scope))];
+			}
+			else
+			{
+				result.rows = rows.map((row) =>
+				{
+					scope.values = row;
+					return(stmt.items.map((item) => item.evaluate(scope)));
+				})
+			}
+
+			result.types = result.columns.map((col,pos) =>
+			{
+				let idx:number = table.columns.indexOf(col);
+				if (idx >= 0 && !stmt.items[pos].aggregate) return(table.types[idx]);
+
+				let value:any = result.rows.find((row) => row[pos] != null)?.[pos];
+
+				if (typeof value === "number") return("numeric");
+				if (typeof value === "boolean") return("boolean");
+
+				return("varchar");
+			})
+		}
+
+		if (stmt.order.length > 0 && !stmt.aggregate)
+		{
+			let columns:string[] = [...table.columns, ...result.columns];
+			let keys:any[][] = rows.map((row,pos) =>
+			{
+				let sort:Scope = {...scope, columns: columns, values: [...row, ...result.rows[pos]]};
+				return(stmt.order.map((entry) => entry.expr.evaluate(sort)));
+			})
+
+			let order:number[] = rows.map((_row,pos) => pos).sort((pos1,pos2) =>
+			{
+				for (let i = 0; i < stmt.order.length; i++)
+				{
+					let cmp:number = LocalSQL.compare(keys[pos1][i],keys[pos2][i]);
+					if (cmp != 0) return(stmt.order[i].asc ? cmp : -cmp);
+				}
+
+				return(0);
+			})
+
+			result.rows = order.map((pos) => result.rows[pos]);
+			result.matched = order.map((pos) => result.matched[pos]);
+		}
+
+		if (stmt.distinct)
+		{
+			let seen:Set<string> = new Set<string>();
+
+			result.rows = result.rows.filter((row) =>
+			{
+				let key:string = JSON.stringify(row);
+				if (seen.has(key)) return(false);
+
+				seen.add(key);
+				return(true);
+			})
+		}
+
+		if (stmt.offset > 0 || stmt.limit != null)
+		{
+			let end:number = stmt.limit != null ? stmt.offset + stmt.limit : undefined;
+
+			result.rows = result.rows.slice(stmt.offset,end);
+			if (!stmt.distinct) result.matched = result.matched.slice(stmt.offset,end);
+		}
+
+		return(result);
+	}
+
+	// The rows of a subquery in the from clause, as a table only visible to the statement
+	private derived(session:Session, stmt:Select, binds:Map<string,any>) : LocalTable
+	{
+		let result:Result = this.query(session,stmt,binds);
+		let table:LocalTable = new LocalTable(null,result.columns);
+
+		table.types = result.types;
+		table.rows = result.rows.map((row) => new LocalRow(table,row));
+
+		return(table);
+	}
+
+	private match(session:Session, table:LocalTable, where:Expression, binds:Map<string,any>) : LocalRow[]
+	{
+		let scope:Scope = this.scope(session,table,binds);
+
+		return(table.rows.filter((row) =>
+		{
+			scope.values = row.visible(session);
+			if (scope.values == null) return(false);
+			return(where == null || where.evaluate(scope) == true);
+		}));
+	}
+
+	private check(session:Session, result:Result, assert:any[]) : any
+	{
+		for (let i = 0; i < result.matched.length; i++)
+		{
+			let row:LocalRow = result.matched[i];
+
+			if (row.owner != null && row.owner != session)
+				return({success: false, lock: true, message: "Row is locked by another session", rows: [row.values]});
+
+			let violations:{column:string}[] = [];
+			let values:any[] = row.visible(session);
+
+			assert?.forEach((bindv:any) =>
+			{
+				let pos:number = result.table.columns.indexOf(bindv.name.toLowerCase());
+				let expected:any = bindv.value === undefined ? null : bindv.value;
+
+				if (pos >= 0 && LocalSQL.compare(values[pos],expected) != 0)
+					violations.push({column: bindv.name});
+			})
+
+			if (violations.length > 0)
+				return({success: false, violations: violations, assert: "Row has been changed by another session"});
+		}
+
+		return(null);
+	}
+
+	private lock(session:Session, row:LocalRow) : void
+	{
+		session.journal.push(new Entry(row));
+		row.owner = session;
+	}
+
+	private restore(session:Session, mark:number) : void
+	{
+		for (let i = session.journal.length - 1; i >= mark; i--)
+		{
+			let entry:Entry = session.journal[i];
+			let row:LocalRow = entry.row;
+
+			row.owner = entry.owner;
+			row.pending = entry.pending;
+			row.deleted = entry.deleted;
+
+			if (row.values == null && row.owner == null)
+				row.remove();
+		}
+
+		session.journal.splice(mark);
+	}
+
+	private affected(table:LocalTable, rows:LocalRow[], session:Session, returning:string[]) : any
+	{
+		let response:any = {success: true, affected: rows.length};
+
+		if (returning.length > 0)
+		{
+			response.rows = rows.map((row) =>
+			{
+				let values:any = {};
+				let current:any[] = row.pending ? row.pending : row.values;
+
+				returning.forEach((col) =>
+				{
+					let pos:number = table.columns.indexOf(col);
+
+					if (pos < 0)
+						throw "Column '"+col+"' does not exist";
+
+					values[col] = current[pos];
+				})
+
+				return(values);
+			})
+		}
+
+		return(response);
+	}
+
+	private format(rows:any[][], columns:string[], compact:boolean) : any[]
+	{
+		if (compact) return(rows);
+
+		return(rows.map((row) =>
+		{
+			let entry:any = {};
+			columns.forEach((col,pos) => entry[col] = row[pos]);
+			return(entry);
+		}));
+	}
+
+	private scope(session:Session, table:LocalTable, binds:Map<string,any>) : Scope
+	{
+		let scope:Scope =
+		{
+			values: null,
+			binds: binds,
+			columns: table.columns,
+			select: (stmt:Select, binds:Map<string,any>) => this.query(session,stmt,binds).rows
+		};
+
+		return(scope);
+	}
+
+	private getTable(name:string) : LocalTable
+	{
+		let table:LocalTable = this.tables$.get(name.toLowerCase());
+
+		if (table == null)
+			throw "Table '"+name+"' does not exist";
+
+		return(table);
+	}
+}
+
+class Session
+{
+	prepared:boolean = false;
+	journal:Entry[] = [];
+	savepoints:Map<string,number> = new Map<string,number>();
+	cursors:Map<string,LocalCursor> = new Map<string,LocalCursor>();
+
+	constructor(public id:string, public scope:string) {}
+
+	get autocommit() : boolean
+	{
+		return(this.scope == "stateless");
+	}
+}
+
+class LocalTable
+{
+	types:string[] = [];
+	rows:LocalRow[] = [];
+
+	constructor(public name:string, public columns:string[]) {}
+}
+
+class LocalRow
+{
+	pending:any[] = null;
+	owner:Session = null;
+	deleted:boolean = false;
+
+	constructor(public table:LocalTable, public values:any[]) {}
+
+	visible(session:Session) : any[]
+	{
+		if (this.owner != session) return(this.values);
+		if (this.deleted) return(null);
+		return(this.pending ? this.pending : this.values);
+	}
+
+	remove() : void
+	{
+		let pos:number = this.table.rows.indexOf(this);
+		if (pos >= 0) this.table.rows.splice(pos,1);
+	}
+}
+
+class Entry
+{
+	owner:Session;
+	pending:any[];
+	deleted:boolean;
+
+	constructor(public row:LocalRow)
+	{
+		this.owner = row.owner;
+		this.pending = row.pending;
+		this.deleted = row.deleted;
+	}
+}
+
+class LocalCursor
+{
+	constructor(private rows:any[][], private size:number, public columns:string[], public compact:boolean) {}
+
+	get more() : boolean
+	{
+		return(this.rows.length > 0);
+	}
+
+	next(size?:number) : any[][]
+	{
+		if (size > 0) this.size = size;
+		let count:number = this.size > 0 ? this.size : this.rows.length;
+		return(this.rows.splice(0,count));
+	}
+}
+
+class Result
+{
+	types:string[] = [];
+	rows:any[][] = [];
+	columns:string[] = [];
+	table:LocalTable = null;
+	matched:LocalRow[] = [];
+}
@@ -0,0 +1,1011 @@
+/*
+  MIT License
+
+  Copyright © 2023 Alex Høffner
+
+  Permission is hereby granted, free of charge, to any person obtaining a copy of this software
+  and associated documentation files (the “Software”), to deal in the Software without
+  restriction, including without limitation the rights to use, copy, modify, merge, publish,
+  distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the
+  Software is furnished to do so, subject to the following conditions:
+
+  The above copyright notice and this permission notice shall be included in all copies or
+  substantial portions of the Software.
+
+  THE SOFTWARE IS PROVIDED “AS IS”, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING
+  BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+  NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM,
+  DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+  FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+/**
+ * The SQL subset understood by the LocalBackend.
+ *
+ * select [distinct] cols|* from table|(select ...) [alias] [where ...] [order by ...]
+ *    [limit n [offset m] | [offset m rows] [fetch next n rows only]] [for update [nowait]]
+ * insert into table(cols) values (...) [returning cols]
+ * update table set col = ..., ... [where ...] [returning cols]
+ * delete from table [where ...] [returning cols]
+ * [retval =] procedure(:in, &out, ...)
+ *
+ * Conditions can use and, or, not, comparisons, like, ilike, is [not] null,
+ * [not] between, and [not] in with a list or a subquery.
+ * count, sum, min, max and avg aggregates the whole result.
+ */
+export class LocalSQL
+{
+	public static parse(sql:string) : Statement
+	{
+		let parser:Parser = new Parser(sql);
+		let stmt:Statement = parser.statement();
+
+		parser.end();
+		return(stmt);
+	}
+
+	public static like(value:any, pattern:any, nocase:boolean) : boolean
+	{
+		if (value == null || pattern == null)
+			return(false);
+
+		let regex:string = "";
+		pattern = ""+pattern;
+
+		for (let i = 0; i < pattern.length; i++)
+		{
+			let c:string = pattern.charAt(i);
+
+			if (c == "%") regex += ".*";
+			else if (c == "_") regex += ".";
+			else regex += c.replace(/[.*+?^${}()|[\]\\]/g,"\\$&");
+		}
+
+		return(new RegExp("^"+regex+"$",nocase ? "is" : "s").test(""+value));
+	}
+
+	public static compare(value1:any, value2:any) : number
+	{
+		if (value1 instanceof Date) value1 = value1.getTime();
+		if (value2 instanceof Date) value2 = value2.getTime();
+
+		if (value1 == null && value2 == null) return(0);
+		if (value1 == null) return(1);
+		if (value2 == null) return(-1);
+
+		if (value1 < value2) return(-1);
+		if (value1 > value2) return(1);
+
+		return(0);
+	}
+}
+
+/** The values an expression is evaluated against */
+export interface Scope
+{
+	columns:string[];
+	values:any[];
+	binds:Map<string,any>;
+	group?:any[][];
+	select(stmt:Select, binds:Map<string,any>) : any[][];
+}
+
+export interface Expression
+{
+	name:string;
+	aggregate:boolean;
+	evaluate(scope:Scope) : any;
+}
+
+export type Statement = Select | Insert | Update | Delete | Call;
+
+export class Select
+{
+	table:string = null;
+	from:Select = null;
+	offset:number = 0;
+	limit:number = null;
+	distinct:boolean = false;
+	forupdate:boolean = false;
+	where:Expression = null;
+	items:Expression[] = null;
+	order:{expr:Expression, asc:boolean}[] = [];
+
+	get aggregate() : boolean
+	{
+		return(this.items != null && this.items.some((item) => item.aggregate));
+	}
+}
+
+export class Insert
+{
+	table:string = null;
+	columns:string[] = [];
+	returning:string[] = [];
+	values:Expression[] = [];
+}
+
+export class Update
+{
+	table:string = null;
+	where:Expression = null;
+	returning:string[] = [];
+	set:{column:string, expr:Expression}[] = [];
+}
+
+export class Delete
+{
+	table:string = null;
+	where:Expression = null;
+	returning:string[] = [];
+}
+
+export class Call
+{
+	name:string = null;
+	retval:string = null;
+	params:{name:string, out:boolean}[] = [];
+}
+
+const keywords:string[] =
+[
+	"select", "distinct", "from", "where", "order", "by", "asc", "desc", "for", "nowait",
+	"insert", "into", "values", "update", "set", "delete", "returning", "and", "or", "not",
+	"like", "ilike", "is", "null", "in", "between", "as", "true", "false", "limit", "offset", "fetch"
+];
+
+const aggregates:string[] = ["count", "sum", "min", "max", "avg"];
+
+enum TokenType
+{
+	Word,
+	Bind,
+	Number,
+	String,
+	Symbol,
+	End
+}
+
+class Token
+{
+	constructor(public type:TokenType, public value:string) {}
+
+	is(word:string) : boolean
+	{
+		if (this.type == TokenType.Symbol) return(this.value == word);
+		return(this.type == TokenType.Word && this.value.toLowerCase() == word);
+	}
+}
+
+class Parser
+{
+	pos:number = 0;
+	tokens:Token[] = [];
+
+	constructor(private sql:string)
+	{
+		this.tokenize();
+	}
+
+	statement() : Statement
+	{
+		if (this.peek().is("select")) return(this.select());
+		if (this.peek().is("insert")) return(this.insert());
+		if (this.peek().is("update")) return(this.update());
+		if (this.peek().is("delete")) return(this.delete());
+		return(this.call());
+	}
+
+	end() : void
+	{
+		this.accept(";");
+
+		if (this.peek().type != TokenType.End)
+			throw "Unexpected '"+this.peek().value+"' in "+this.sql;
+	}
+
+	select() : Select
+	{
+		let stmt:Select = new Select();
+
+		this.expect("select");
+		stmt.distinct = this.accept("distinct");
+
+		if (!this.accept("*"))
+		{
+			stmt.items = [];
+
+			do
+			{
+				let item:Expression = this.expression();
+
+				if (this.accept("as")) item.name = this.word();
+				else if (this.alias()) item.name = this.word();
+
+				stmt.items.push(item);
+			}
+			while(this.accept(","));
+		}
+
+		this.expect("from");
+
+		if (!this.accept("(")) stmt.table = this.table();
+		else
+		{
+			stmt.from = this.select();
+			this.expect(")");
+			if (this.alias()) this.word();
+		}
+
+		if (this.accept("where"))
+			stmt.where = this.expression();
+
+		if (this.accept("order"))
+		{
+			this.expect("by");
+
+			do
+			{
+				let expr:Expression = this.expression();
+
+				if (this.accept("desc")) stmt.order.push({expr: expr, asc: false});
+				else {this.accept("asc"); stmt.order.push({expr: expr, asc: true});}
+			}
+			while(this.accept(","));
+		}
+
+		if (this.accept("limit"))
+		{
+			stmt.limit = this.number();
+			if (this.accept("offset")) stmt.offset = this.number();
+		}
+		else
+		{
+			if (this.accept("offset"))
+			{
+				stmt.offset = this.number();
+				if (!this.accept("rows")) this.expect("row");
+			}
+
+			if (this.accept("fetch"))
+			{
+				if (!this.accept("next")) this.expect("first");
+				stmt.limit = this.number();
+				if (!this.accept("rows")) this.expect("row");
+				this.expect("only");
+			}
+		}
+
+		if (this.accept("for"))
+		{
+			this.expect("update");
+			stmt.forupdate = true;
+			this.accept("nowait");
+		}
+
+		return(stmt);
+	}
+
+	insert() : Insert
+	{
+		let stmt:Insert = new Insert();
+
+		this.expect("insert");
+		this.expect("into");
+
+		stmt.table = this.word();
+
+		this.expect("(");
+		do {stmt.columns.push(this.column());} while(this.accept(","));
+		this.expect(")");
+
+		this.expect("values");
+
+		this.expect("(");
+		do {stmt.values.push(this.expression());} while(this.accept(","));
+		this.expect(")");
+
+		if (stmt.columns.length != stmt.values.length)
+			throw "Number of columns and values differs in "+this.sql;
+
+		stmt.returning = this.returning();
+		return(stmt);
+	}
+
+	update() : Update
+	{
+		let stmt:Update = new Update();
+
+		this.expect("update");
+		stmt.table = this.table();
+		this.expect("set");
+
+		do
+		{
+			let column:string = this.column();
+			this.expect("=");
+			stmt.set.push({column: column, expr: this.expression()});
+		}
+		while(this.accept(","));
+
+		if (this.accept("where"))
+			stmt.where = this.expression();
+
+		stmt.returning = this.returning();
+		return(stmt);
+	}
+
+	delete() : Delete
+	{
+		let stmt:Delete = new Delete();
+
+		this.expect("delete");
+		this.expect("from");
+		stmt.table = this.table();
+
+		if (this.accept("where"))
+			stmt.where = this.expression();
+
+		stmt.returning = this.returning();
+		return(stmt);
+	}
+
+	call() : Call
+	{
+		let stmt:Call = new Call();
+		stmt.name = this.word();
+
+		if (this.accept("="))
+		{
+			stmt.retval = stmt.name;
+			stmt.name = this.word();
+		}
+
+		this.expect("(");
+
+		if (!this.accept(")"))
+		{
+			do
+			{
+				let out:boolean = this.accept("&");
+				let token:Token = this.next();
+
+				if (out && token.type == TokenType.Word) stmt.params.push({name: token.value, out: true});
+				else if (!out && token.type == TokenType.Bind) stmt.params.push({name: token.value, out: false});
+				else throw "Unexpected parameter '"+token.value+"' in "+this.sql;
+			}
+			while(this.accept(","));
+
+			this.expect(")");
+		}
+
+		return(stmt);
+	}
+
+	expression() : Expression
+	{
+		let expr:Expression = this.and();
+
+		while(this.accept("or"))
+			expr = new Logical("or",expr,this.and());
+
+		return(expr);
+	}
+
+	and() : Expression
+	{
+		let expr:Expression = this.not();
+
+		while(this.accept("and"))
+			expr = new Logical("and",expr,this.not());
+
+		return(expr);
+	}
+
+	not() : Expression
+	{
+		if (this.accept("not"))
+			return(new Not(this.not()));
+
+		return(this.predicate());
+	}
+
+	predicate() : Expression
+	{
+		let expr:Expression = this.additive();
+		let operators:string[] = ["=", "==", "<>", "!=", "<", "<=", ">", ">="];
+
+		if (operators.includes(this.peek().value) && this.peek().type == TokenType.Symbol)
+			return(new Comparison(this.next().value,expr,this.additive()));
+
+		if (this.accept("is"))
+		{
+			let negate:boolean = this.accept("not");
+			this.expect("null");
+
+			let test:Expression = new IsNull(expr);
+			return(negate ? new Not(test) : test);
+		}
+
+		let negate:boolean = false;
+
+		if (this.peek().is("not"))
+		{
+			let next:Token = this.tokens[this.pos+1];
+
+			if (next.is("like") || next.is("ilike") || next.is("in") || next.is("between"))
+			{
+				this.next();
+				negate = true;
+			}
+		}
+
+		let test:Expression = null;
+
+		if (this.accept("like")) test = new Like(expr,this.additive(),false);
+		else if (this.accept("ilike")) test = new Like(expr,this.additive(),true);
+
+		else if (this.accept("between"))
+		{
+			let low:Expression = this.additive();
+			this.expect("and");
+			test = new Between(expr,low,this.additive());
+		}
+
+		else if (this.accept("in"))
+		{
+			this.expect("(");
+
+			if (this.peek().is("select"))
+			{
+				test = new InSelect(expr,this.select());
+			}
+			else
+			{
+				let list:Expression[] = [];
+				do {list.push(this.additive());} while(this.accept(","));
+				test = new InList(expr,list);
+			}
+
+			this.expect(")");
+		}
+
+		if (test == null) return(expr);
+		return(negate ? new Not(test) : test);
+	}
+
+	additive() : Expression
+	{
+		let expr:Expression = this.multiplicative();
+
+		while(this.peek().is("+") || this.peek().is("-") || this.peek().is("||"))
+			expr = new Arithmetic(this.next().value,expr,this.multiplicative());
+
+		return(expr);
+	}
+
+	multiplicative() : Expression
+	{
+		let expr:Expression = this.unary();
+
+		while(this.peek().is("*") || this.peek().is("/"))
+			expr = new Arithmetic(this.next().value,expr,this.unary());
+
+		return(expr);
+	}
+
+	unary() : Expression
+	{
+		if (this.accept("-"))
+			return(new Arithmetic("-",new Literal(0),this.unary()));
+
+		return(this.primary());
+	}
+
+	primary() : Expression
+	{
+		let token:Token = this.next();
+
+		switch(token.type)
+		{
+			case TokenType.Number : return(new Literal(+token.value));
+			case TokenType.String : return(new Literal(token.value));
+			case TokenType.Bind 	 : return(new Bind(token.value));
+		}
+
+		if (token.is("("))
+		{
+			let list:Expression[] = [];
+			do {list.push(this.expression());} while(this.accept(","));
+
+			this.expect(")");
+			if (list.length == 1) return(list[0]);
+
+			return(new Tuple(list));
+		}
+
+		if (token.is("null")) return(new Literal(null));
+		if (token.is("true")) return(new Literal(true));
+		if (token.is("false")) return(new Literal(false));
+
+		if (token.type != TokenType.Word || keywords.includes(token.value.toLowerCase()))
+			throw "Unexpected '"+token.value+"' in "+this.sql;
+
+		let name:string = token.value.toLowerCase();
+
+		if (aggregates.includes(name) && this.accept("("))
+		{
+			let arg:Expression = null;
+			let distinct:boolean = this.accept("distinct");
+
+			if (!this.accept("*")) arg = this.expression();
+			this.expect(")");
+
+			return(new Aggregate(name,arg,distinct));
+		}
+
+		return(new Column(name));
+	}
+
+	table() : string
+	{
+		let table:string = this.word();
+		if (this.alias()) this.word();
+		return(table);
+	}
+
+	column() : string
+	{
+		let name:string = this.word().toLowerCase();
+		return(name.substring(name.lastIndexOf(".")+1));
+	}
+
+	returning() : string[]
+	{
+		let columns:string[] = [];
+
+		if (this.accept("returning"))
+		{
+			do {columns.push(this.column());} while(this.accept(","));
+		}
+
+		return(columns);
+	}
+
+	alias() : boolean
+	{
+		let token:Token = this.peek();
+		return(token.type == TokenType.Word && !keywords.includes(token.value.toLowerCase()));
+	}
+
+	word() : string
+	{
+		let token:Token = this.next();
+
+		if (token.type != TokenType.Word)
+			throw "Expected name, found '"+token.value+"' in "+this.sql;
+
+		return(token.value);
+	}
+
+	number() : number
+	{
+		let token:Token = this.next();
+
+		if (token.type != TokenType.Number)
+			throw "Expected number, found '"+token.value+"' in "+this.sql;
+
+		return(+token.value);
+	}
+
+	peek() : Token
+	{
+		return(this.tokens[this.pos]);
+	}
+
+	next() : Token
+	{
+		let token:Token = this.tokens[this.pos];
+		if (token.type != TokenType.End) this.pos++;
+		return(token);
+	}
+
+	accept(word:string) : boolean
+	{
+		if (!this.peek().is(word)) return(false);
+		this.pos++;
+		return(true);
+	}
+
+	expect(word:string) : void
+	{
+		if (!this.accept(word))
+			throw "Expected '"+word+"', found '"+this.peek().value+"' in "+this.sql;
+	}
+
+	tokenize() : void
+	{
+		let pos:number = 0;
+		let sql:string = this.sql;
+		let symbols:string[] = ["<=", ">=", "<>", "!=", "==", "||", "=", "<", ">", "(", ")", ",", "*", "+", "-", "/", "&", ";"];
+
+		while(pos < sql.length)
+		{
+			let c:string = sql.charAt(pos);
+
+			if (/\s/.test(c))
+			{
+				pos++;
+				continue;
+			}
+
+			if (c == "'")
+			{
+				let str:string = "";
+				pos++;
+
+				while(pos < sql.length)
+				{
+					if (sql.charAt(pos) == "'")
+					{
+						if (sql.charAt(pos+1) != "'") break;
+						pos++;
+					}
+
+					str += sql.charAt(pos++);
+				}
+
+				if (pos >= sql.length)
+					throw "Unterminated string in "+sql;
+
+				pos++;
+				this.tokens.push(new Token(TokenType.String,str));
+				continue;
+			}
+
+			let match:RegExpMatchArray = sql.substring(pos).match(/^[0-9]+(\.[0-9]+)?/);
+
+			if (match)
+			{
+				pos += match[0].length;
+				this.tokens.push(new Token(TokenType.Number,match[0]));
+				continue;
+			}
+
+			match = sql.substring(pos).match(/^:?"?[A-Za-z_][A-Za-z0-9_$#.]*"?/);
+
+			if (match)
+			{
+				let word:string = match[0];
+				pos += word.length;
+
+				let type:TokenType = TokenType.Word;
+
+				if (word.startsWith(":"))
+				{
+					word = word.substring(1);
+					type = TokenType.Bind;
+				}
+
+				this.tokens.push(new Token(type,word.replace(/"/g,"")));
+				continue;
+			}
+
+			let symbol:string = symbols.find((sym) => sql.startsWith(sym,pos));
+
+			if (symbol == null)
+				throw "Unexpected character '"+c+"' in "+sql;
+
+			pos += symbol.length;
+			this.tokens.push(new Token(TokenType.Symbol,symbol));
+		}
+
+		this.tokens.push(new Token(TokenType.End,"end of statement"));
+	}
+}
+
+class Literal implements Expression
+{
+	name:string = "?column?";
+	aggregate:boolean = false;
+
+	constructor(private value:any) {}
+
+	evaluate() : any
+	{
+		return(this.value);
+	}
+}
+
+class Bind implements Expression
+{
+	aggregate:boolean = false;
+
+	constructor(public name:string) {}
+
+	evaluate(scope:Scope) : any
+	{
+		let name:string = this.name.toLowerCase();
+
+		if (!scope.binds.has(name))
+			throw "Bindvalue '"+this.name+"' not specified";
+
+		return(scope.binds.get(name));
+	}
+}
+
+class Column implements Expression
+{
+	name:string;
+	column:string;
+	aggregate:boolean = false;
+
+	constructor(name:string)
+	{
+		this.column = name.substring(name.lastIndexOf(".")+1);
+		this.name = this.column;
+	}
+
+	evaluate(scope:Scope) : any
+	{
+		let pos:number = scope.columns.indexOf(this.column);
+
+		if (pos < 0)
+			throw "Column '"+this.column+"' does not exist";
+
+		return(scope.values[pos]);
+	}
+}
+
+class Tuple implements Expression
+{
+	name:string = "?column?";
+	aggregate:boolean = false;
+
+	constructor(public list:Expression[]) {}
+
+	evaluate(scope:Scope) : any
+	{
+		return(this.list.map((expr) => expr.evaluate(scope)));
+	}
+}
+
+class Not implements Expression
+{
+	name:string = "?column?";
+	aggregate:boolean = false;
+
+	constructor(private expr:Expression) {}
+
+	evaluate(scope:Scope) : any
+	{
+		let value:any = this.expr.evaluate(scope);
+		if (value == null) return(null);
+		return(!value);
+	}
+}
+
+class Logical implements Expression
+{
+	name:string = "?column?";
+	aggregate:boolean = false;
+
+	constructor(private operator:string, private left:Expression, private right:Expression) {}
+
+	evaluate(scope:Scope) : any
+	{
+		let left:any = this.left.evaluate(scope);
+
+		if (this.operator == "and")
+		{
+			if (left === false) return(false);
+			let right:any = this.right.evaluate(scope);
+
+			if (right === false) return(false);
+			if (left == null || right == null) return(null);
+
+			return(true);
+		}
+
+		if (left === true) return(true);
+		let right:any = this.right.evaluate(scope);
+
+		if (right === true) return(true);
+		if (left == null || right == null) return(null);
+
+		return(false);
+	}
+}
+
+class Comparison implements Expression
+{
+	name:string = "?column?";
+	aggregate:boolean = false;
+
+	constructor(private operator:string, private left:Expression, private right:Expression) {}
+
+	evaluate(scope:Scope) : any
+	{
+		let left:any = this.left.evaluate(scope);
+		let right:any = this.right.evaluate(scope);
+
+		if (left == null || right == null)
+			return(null);
+
+		let cmp:number = LocalSQL.compare(left,right);
+
+		switch(this.operator)
+		{
+			case "<"  : return(cmp < 0);
+			case "<=" : return(cmp <= 0);
+			case ">"  : return(cmp > 0);
+			case ">=" : return(cmp >= 0);
+			case "<>" : return(cmp != 0);
+			case "!=" : return(cmp != 0);
+			default	 : return(cmp == 0);
+		}
+	}
+}
+
+class Arithmetic implements Expression
+{
+	name:string = "?column?";
+	aggregate:boolean = false;
+
+	constructor(private operator:string, private left:Expression, private right:Expression)
+	{
+		this.aggregate = left.aggregate || right.aggregate;
+	}
+
+	evaluate(scope:Scope) : any
+	{
+		let left:any = this.left.evaluate(scope);
+		let right:any = this.right.evaluate(scope);
+
+		if (this.operator == "||")
+			return((left == null ? "" : ""+left) + (right == null ? "" : ""+right));
+
+		if (left == null || right == null)
+			return(null);
+
+		switch(this.operator)
+		{
+			case "+" : return(+left + +right);
+			case "-" : return(+left - +right);
+			case "*" : return(+left * +right);
+			default	: return(+left / +right);
+		}
+	}
+}
+
+class Like implements Expression
+{
+	name:string = "?column?";
+	aggregate:boolean = false;
+
+	constructor(private expr:Expression, private pattern:Expression, private nocase:boolean) {}
+
+	evaluate(scope:Scope) : any
+	{
+		let value:any = this.expr.evaluate(scope);
+		let pattern:any = this.pattern.evaluate(scope);
+
+		if (value == null || pattern == null) return(null);
+		return(LocalSQL.like(value,pattern,this.nocase));
+	}
+}
+
+class IsNull implements Expression
+{
+	name:string = "?column?";
+	aggregate:boolean = false;
+
+	constructor(private expr:Expression) {}
+
+	evaluate(scope:Scope) : any
+	{
+		return(this.expr.evaluate(scope) == null);
+	}
+}
+
+class Between implements Expression
+{
+	name:string = "?column?";
+	aggregate:boolean = false;
+
+	constructor(private expr:Expression, private low:Expression, private high:Expression) {}
+
+	evaluate(scope:Scope) : any
+	{
+		let value:any = this.expr.evaluate(scope);
+		let low:any = this.low.evaluate(scope);
+		let high:any = this.high.evaluate(scope);
+
+		if (value == null || low == null || high == null) return(null);
+		return(LocalSQL.compare(value,low) >= 0 && LocalSQL.compare(value,high) <= 0);
+	}
+}
+
+class InList implements Expression
+{
+	name:string = "?column?";
+	aggregate:boolean = false;
+
+	constructor(private expr:Expression, private list:Expression[]) {}
+
+	evaluate(scope:Scope) : any
+	{
+		let value:any = this.expr.evaluate(scope);
+		if (value == null) return(null);
+
+		return(this.list.some((entry) => LocalSQL.compare(value,entry.evaluate(scope)) == 0));
+	}
+}
+
+class InSelect implements Expression
+{
+	name:string = "?column?";
+	aggregate:boolean = false;
+
+	constructor(private expr:Expression, private select:Select) {}
+
+	evaluate(scope:Scope) : any
+	{
+		let value:any = this.expr.evaluate(scope);
+		let rows:any[][] = scope.select(this.select,scope.binds);
+
+		if (!Array.isArray(value))
+			value = [value];
+
+		return(rows.some((row) =>
+		{
+			for (let i = 0; i < value.length; i++)
+			{
+				if (value[i] == null || LocalSQL.compare(value[i],row[i]) != 0)
+					return(false);
+			}
+
+			return(true);
+		}));
+	}
+}
+
+class Aggregate implements Expression
+{
+	name:string;
+	aggregate:boolean = true;
+
+	constructor(private func:string, private arg:Expression, private distinct:boolean)
+	{
+		this.name = func;
+	}
+
+	evaluate(scope:Scope) : any
+	{
+		let values:any[] = [];
+		let group:any[][] = scope.group ? scope.group : [];
+
+		for (let i = 0; i < group.length; i++)
+		{
+			let value:any = 1;
+
+			if (this.arg != null)
+				value = this.arg.evaluate({...scope, values: group[i], group: null});
+
+			if (value != null)
+				values.push(value);
+		}
+
+		if (this.distinct)
+			values = values.filter((value,pos) => values.findIndex((v) => LocalSQL.compare(v,value) == 0) == pos);
+
+		switch(this.func)
+		{
+			case "count" : return(values.length);
+			case "sum"	 : return(values.length == 0 ? null : values.reduce((sum,value) => sum + +value,0));
+			case "avg"	 : return(values.length == 0 ? null : values.reduce((sum,value) => sum + +value,0) / values.length);
+			case "min"	 : return(values.length == 0 ? null : values.reduce((min,value) => LocalSQL.compare(value,min) < 0 ? value : min));
+			default		 : return(values.length == 0 ? null : values.reduce((max,value) => LocalSQL.compare(value,max) > 0 ? value : max));
+		}
+	}
+}
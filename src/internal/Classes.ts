@@ -25,6 +25,7 @@ import { Class } from '../public/Class.js';
 import { DatePicker } from './forms/DatePicker.js';
 import { ListOfValues } from './forms/ListOfValues.js';
 import { AdvancedQuery } from './forms/AdvancedQuery.js';
+import { ConflictResolution } from './forms/ConflictResolution.js';
 
 /**
  * Defines which forms to be used internally.
@@ -37,6 +38,7 @@ export class Classes
 	public static DatePickerClass:Class<Form> = DatePicker;
 	public static ListOfValuesClass:Class<Form> = ListOfValues;
 	public static AdvancedQueryClass:Class<Form> = AdvancedQuery;
+	public static ConflictResolutionClass:Class<Form> = ConflictResolution;
 
 	public static get zindex() : number
 	{
@@ -48,6 +50,7 @@ export class Classes
 		if (clazz == Alert) return(true);
 		if (clazz == DatePicker) return(true);
 		if (clazz == AdvancedQuery) return(true);
+		if (clazz == ConflictResolution) return(true);
 		return(false);
 	}
 }
\ No newline at end of file
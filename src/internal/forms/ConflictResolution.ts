@@ -0,0 +1,250 @@
+/*
+  MIT License
+
+  Copyright © 2023 Alex Høffner
+
+  Permission is hereby granted, free of charge, to any person obtaining a copy of this software
+  and associated documentation files (the “Software”), to deal in the Software without
+  restriction, including without limitation the rights to use, copy, modify, merge, publish,
+  distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the
+  Software is furnished to do so, subject to the following conditions:
+
+  The above copyright notice and this permission notice shall be included in all copies or
+  substantial portions of the Software.
+
+  THE SOFTWARE IS PROVIDED “AS IS”, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING
+  BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+  NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM,
+  DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+  FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+import { Form } from "../Form.js";
+import { Classes } from "../Classes.js";
+import { Block } from "../../public/Block.js";
+import { Record } from "../../model/Record.js";
+import { MSGGRP } from "../../messages/Internal.js";
+import { Messages } from "../../messages/Messages.js";
+import { KeyMap } from "../../control/events/KeyMap.js";
+import { EventType } from "../../control/events/EventType.js";
+import { Message } from "../../messages/interfaces/Message.js";
+import { MemoryTable } from "../../model/datasources/MemoryTable.js";
+import { Internals } from "../../application/properties/Internals.js";
+
+/**
+ * Form used for resolving conflicts when a record
+ * has been changed by another user. For each column, the user
+ * chooses between own, the database and the original value.
+ */
+export class ConflictResolution extends Form
+{
+	private mine:any[] = null;
+	private theirs:any[] = null;
+	private original:any[] = null;
+	private columns:string[] = null;
+
+	private record:Record = null;
+	private conflicts:Block = null;
+
+	constructor()
+	{
+		super("");
+
+		this.moveable = true;
+		this.resizable = true;
+
+		this.addEventListener(this.initialize,{type: EventType.PostViewInit});
+	}
+
+	private async skip() : Promise<boolean>
+	{
+		return(this.close(true));
+	}
+
+	private async keepMine() : Promise<boolean>
+	{
+		return(this.apply(this.columns.map(() => "mine")));
+	}
+
+	private async takeTheirs() : Promise<boolean>
+	{
+		return(this.apply(this.columns.map(() => "theirs")));
+	}
+
+	private async done() : Promise<boolean>
+	{
+		await this.validate();
+
+		let choices:string[] = [];
+		let data:any[][] = await this.conflicts.getSourceData(true,true);
+
+		let col:number = data[0].indexOf("column");
+		let use:number = data[0].indexOf("use");
+
+		this.columns.forEach((column) =>
+		{
+			let row:any[] = data.find((row) => row[col] == column);
+			choices.push(row ? row[use] : "theirs");
+		})
+
+		return(this.apply(choices));
+	}
+
+	private async apply(choices:string[]) : Promise<boolean>
+	{
+		let record:Record = this.record;
+
+		for (let i = 0; i < this.columns.length; i++)
+		{
+			let value:any = this.theirs[i];
+
+			if (choices[i] == "mine") value = this.mine[i];
+			if (choices[i] == "original") value = this.original[i];
+
+			record.setValue(this.columns[i],value);
+		}
+
+		await this.close(true);
+
+		// Database values already shown
+		if (!record.dirty)
+			return(true);
+
+		await record.block.view.refresh(record);
+
+		if (!await record.wrapper.modified(record,false))
+			return(false);
+
+		// Retry the update
+		return(record.wrapper.flush());
+	}
+
+	private async initialize() : Promise<boolean>
+	{
+		this.canvas.zindex = Classes.zindex;
+
+		this.record = this.parameters.get("record");
+		this.columns = this.parameters.get("columns");
+
+		this.mine = this.parameters.get("mine");
+		this.theirs = this.parameters.get("theirs");
+		this.original = this.parameters.get("original");
+
+		let rows:any[][] = [];
+
+		for (let i = 0; i < this.columns.length; i++)
+		{
+			let mine:any = this.mine[i];
+			let theirs:any = this.theirs[i];
+			let original:any = this.original[i];
+
+			if (ConflictResolution.equals(mine,theirs) && ConflictResolution.equals(original,theirs))
+				continue;
+
+			// Keep own changes, otherwise take the database value
+			let use:string = ConflictResolution.equals(mine,original) ? "theirs" : "mine";
+
+			rows.push(
+			[
+				this.columns[i],
+				ConflictResolution.display(original),
+				ConflictResolution.display(theirs),
+				ConflictResolution.display(mine),
+				use
+			]);
+		}
+
+		let page:string = ConflictResolution.page;
+
+		page = page.replace("ROWS",rows.length+"");
+		page = page.replace("{OK}",Internals.OKButtonText);
+		page = page.replace("{CANCEL}",Internals.CancelButtonText);
+		page = page.replace("{COLUMN}",ConflictResolution.text(22));
+		page = page.replace("{ORIGINAL}",ConflictResolution.text(23));
+		page = page.replace("{THEIRS}",ConflictResolution.text(24));
+		page = page.replace("{MINE}",ConflictResolution.text(25));
+		page = page.replace("{KEEPMINE}",ConflictResolution.text(26));
+		page = page.replace("{TAKETHEIRS}",ConflictResolution.text(27));
+
+		await this.setView(page);
+		let view:HTMLElement = this.getView();
+
+		Internals.stylePopupWindow(view,ConflictResolution.text(21));
+
+		this.conflicts = this.getBlock("conflicts");
+
+		let choices:Map<string,string> = new Map<string,string>();
+
+		choices.set("mine",ConflictResolution.text(25));
+		choices.set("theirs",ConflictResolution.text(24));
+		choices.set("original",ConflictResolution.text(23));
+
+		this.conflicts.qbeallowed = false;
+		this.conflicts.setValidValues("use",choices);
+		this.conflicts.datasource = new MemoryTable(["column","original","theirs","mine","use"],rows);
+
+		this.addEventListener(this.done,{type: EventType.Key, key: KeyMap.enter});
+		this.addEventListener(this.skip,{type: EventType.Key, key: KeyMap.escape});
+
+		await this.conflicts.executeQuery();
+
+		this.focus();
+		return(false);
+	}
+
+	private static equals(value1:any, value2:any) : boolean
+	{
+		if (value1 instanceof Date) value1 = value1.getTime();
+		if (value2 instanceof Date) value2 = value2.getTime();
+		return(value1 == value2);
+	}
+
+	// Texts are taken from the message bundle of the current language
+	private static text(errno:number) : string
+	{
+		let msg:Message = Messages.get(MSGGRP.TRX,errno);
+		return(msg ? msg.message : "");
+	}
+
+	private static display(value:any) : string
+	{
+		if (value == null) return(null);
+		if (value instanceof Date) return(value.toLocaleString());
+		return(value+"");
+	}
+
+	public static page:string =
+		Internals.header +
+		`
+		<div name="popup-body">
+			<div name="conflict-resolution">
+				<table name="conflicts">
+					<tr>
+						<th>{COLUMN}</th>
+						<th>{ORIGINAL}</th>
+						<th>{THEIRS}</th>
+						<th>{MINE}</th>
+						<th></th>
+					</tr>
+					<tr foreach="row in 1..ROWS">
+						<td><input name="column" from="conflicts" row="$row" readonly></td>
+						<td><input name="original" from="conflicts" row="$row" readonly></td>
+						<td><input name="theirs" from="conflicts" row="$row" readonly></td>
+						<td><input name="mine" from="conflicts" row="$row" readonly></td>
+						<td><select name="use" from="conflicts" row="$row" size="1"></select></td>
+					</tr>
+				</table>
+			</div>
+
+			<div name="lower-right">
+				<div name="button-area">
+				<button onClick="this.skip()">{CANCEL}</button>
+				<button onClick="this.keepMine()">{KEEPMINE}</button>
+				<button onClick="this.takeTheirs()">{TAKETHEIRS}</button>
+				<button onClick="this.done()">{OK}</button>
+				</div>
+			</div>
+		</div>
+		`
+	+ Internals.footer;
+}
@@ -30,11 +30,12 @@ export class Loading
 	private displayed:boolean = false;
 	private view:HTMLDivElement = null;
 	private element:HTMLElement = null;
+	private button:HTMLButtonElement = null;
 	private jobs:Map<number,Running> = new Map<number,Running>();
 
-	public static show(message:string) : number
+	public static show(message:string, cancel?:() => void) : number
 	{
-		let thread:number = Loading.loader.start(message);
+		let thread:number = Loading.loader.start(message,cancel);
 		return(thread);
 	}
 
@@ -43,14 +44,40 @@ export class Loading
 		Loading.loader.remove(thread);
 	}
 
-	private start(message:string) : number
+	private start(message:string, cancel:() => void) : number
 	{
 		this.threads++;
-		this.jobs.set(this.threads,new Running(message));
+		this.jobs.set(this.threads,new Running(message,cancel));
 		setTimeout(() => {Loading.loader.display()},Loading.SHORTWHILE*1000);
+		if (this.displayed) this.showCancel();
 		return(this.threads);
 	}
 
+	private cancel() : void
+	{
+		this.jobs.forEach((job) =>
+		{
+			if (job.cancel)
+			{
+				job.cancel();
+				job.cancel = null;
+			}
+		})
+
+		this.showCancel();
+	}
+
+	private showCancel() : void
+	{
+		let cancellable:boolean = false;
+
+		this.jobs.forEach((job) =>
+			{if (job.cancel) cancellable = true;})
+
+		if (this.button)
+			this.button.style.display = cancellable ? "block" : "none";
+	}
+
 	private display() : void
 	{
 		if (this.threads == 0)
@@ -71,6 +98,7 @@ export class Loading
 
 			this.watch();
 			this.prepare();
+			this.showCancel();
 
 			document.body.appendChild(this.view);
 			this.view.focus();
@@ -81,6 +109,7 @@ export class Loading
 	{
 		this.threads--;
 		this.jobs.delete(thread);
+		if (this.displayed) this.showCancel();
 
 		if (this.displayed && this.threads == 0)
 		{
@@ -101,6 +130,10 @@ export class Loading
 
 			this.view = this.view.childNodes.item(1) as HTMLDivElement;
 			this.view.style.zIndex = "2147483647";
+
+			this.button = this.view.querySelector('button[name="cancel"]');
+			this.button.textContent = Internals.CancelButtonText;
+			this.button.addEventListener("click",() => this.cancel());
 		}
 	}
 
@@ -136,6 +169,7 @@ export class Loading
 	`
 		<div tabindex="-1" style="position:absolute; top:0; left:0; width: 100%; height: 100%; z-index: 2147483647">
 			<div name="loading"></div>
+			<button name="cancel"></button>
 		</div>
 	`
 }
@@ -143,5 +177,5 @@ export class Loading
 class Running
 {
 	public start:Date = new Date();
-	constructor(public message:string) {}
+	constructor(public message:string, public cancel:() => void) {}
 }
\ No newline at end of file
@@ -61,14 +61,34 @@ export class InternalUS implements Bundle
 		{grpno: MSGGRP.TRX, errno: 15, message: "Cannot insert records on datasource based on a query"},
 		{grpno: MSGGRP.TRX, errno: 16, message: "Cannot update records on datasource based on a query"},
 		{grpno: MSGGRP.TRX, errno: 17, message: "Cannot delete records on datasource based on a query"},
+		{grpno: MSGGRP.TRX, errno: 18, message: "Savepoint '%' does not exist"},
+		{grpno: MSGGRP.TRX, errno: 19, message: "Transactions partially committed on % connection(s), not committed on %"},
+		{grpno: MSGGRP.TRX, errno: 20, message: "Record has been changed by another user since it was fetched"},
+		{grpno: MSGGRP.TRX, errno: 21, message: "Record changed by another user"},
+		{grpno: MSGGRP.TRX, errno: 22, message: "Column"},
+		{grpno: MSGGRP.TRX, errno: 23, message: "Original"},
+		{grpno: MSGGRP.TRX, errno: 24, message: "Database"},
+		{grpno: MSGGRP.TRX, errno: 25, message: "Mine"},
+		{grpno: MSGGRP.TRX, errno: 26, message: "Keep mine"},
+		{grpno: MSGGRP.TRX, errno: 27, message: "Take theirs"},
 
 		{grpno: MSGGRP.SQL, errno: 1, message: "Record has been deleted by another user"},
 		{grpno: MSGGRP.SQL, errno: 2, message: "Unable to describe table '%' [%]"},
 		{grpno: MSGGRP.SQL, errno: 3, message: "Unable to describe query '%'"},
+		{grpno: MSGGRP.SQL, errno: 4, message: "Query cancelled"},
+		{grpno: MSGGRP.SQL, errno: 5, message: "Query timed out after % seconds"},
+		{grpno: MSGGRP.SQL, errno: 6, message: "Column '%' does not exist in '%'"},
+		{grpno: MSGGRP.SQL, errno: 7, message: "Query on '%' failed [%]"},
+		{grpno: MSGGRP.SQL, errno: 8, message: "Call to procedure '%' failed [%]"},
 
 		{grpno: MSGGRP.ORDB, errno: 1, message: "Connection scope cannot be changed after connect"},
 		{grpno: MSGGRP.ORDB, errno: 2, message: "Failed to create %, connection is null"},
 		{grpno: MSGGRP.ORDB, errno: 3, message: "% Not connected"},
+		{grpno: MSGGRP.ORDB, errno: 4, message: "Unable to obtain access token"},
+		{grpno: MSGGRP.ORDB, errno: 5, message: "Connection to the database was lost and has been re-established"},
+		{grpno: MSGGRP.ORDB, errno: 6, message: "Connection to the database was lost. Uncommitted changes have been rolled back"},
+		{grpno: MSGGRP.ORDB, errno: 7, message: "Connection '%' is not registered"},
+		{grpno: MSGGRP.ORDB, errno: 8, message: "Connection to the database was lost. Uncommitted changes could not be undone"},
 
 		{grpno: MSGGRP.FRAMEWORK, errno:  1, message: "Attribute '%' on component '%' is null"},
 		{grpno: MSGGRP.FRAMEWORK, errno:  2, message: "Attribute '%' on component '%' does not exist"},
@@ -90,6 +110,7 @@ export class InternalUS implements Bundle
 		{grpno: MSGGRP.FRAMEWORK, errno: 18, message: "Class % is not an instance of DataMapper"},
 		{grpno: MSGGRP.FRAMEWORK, errno: 19, message: "% is mapped to a class"},
 		{grpno: MSGGRP.FRAMEWORK, errno: 20, message: "% is cannot be parsed as a valid date"},
+		{grpno: MSGGRP.FRAMEWORK, errno: 21, message: "% on '%' failed [%]"},
 
 		{grpno: MSGGRP.FORM, errno: 1, message: "Block '%' does not exist"},
 		{grpno: MSGGRP.FORM, errno: 2, message: "Form must be validated before layout can be changed"},
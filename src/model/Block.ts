@@ -33,6 +33,7 @@ import { SQLSource } from "../database/SQLSource.js";
 import { QueryByExample } from "./QueryByExample.js";
 import { Block as ViewBlock } from '../view/Block.js';
 import { FilterStructure } from "./FilterStructure.js";
+import { Aggregate } from "./interfaces/Aggregate.js";
 import { DataSource } from "./interfaces/DataSource.js";
 import { Form as InterfaceForm } from '../public/Form.js';
 import { MemoryTable } from "./datasources/MemoryTable.js";
@@ -40,6 +41,7 @@ import { DataSourceWrapper } from "./DataSourceWrapper.js";
 import { EventType } from "../control/events/EventType.js";
 import { QueryManager } from "./relations/QueryManager.js";
 import { FormBacking } from "../application/FormBacking.js";
+import { FormMetaData } from "../application/FormMetaData.js";
 import { Block as InterfaceBlock } from '../public/Block.js';
 import { DatabaseTable } from "../database/DatabaseTable.js";
 import { FieldInstance } from "../view/fields/FieldInstance.js";
@@ -232,6 +234,16 @@ export class Block
 		this.ctrlblk = (source == null);
 		if (this.source$) this.source$.name = this.name;
 
+		if (source instanceof SQLSource && source.connection == null)
+		{
+			// Use the forms default connection, if any
+			source.connection = FormMetaData.get(this.pubfrm$)?.connection;
+
+			// Cannot create object when connection is null
+			if (source.connection == null)
+				Messages.severe(MSGGRP.ORDB,2,source.constructor.name);
+		}
+
 		this.addColumns();
 	}
 
@@ -448,6 +460,7 @@ export class Block
 	public set record(record:number)
 	{
 		this.record$ = record;
+		this.view$?.showRecordCounters();
 	}
 
 	public get interface() : InterfaceBlock
@@ -755,6 +768,7 @@ export class Block
 
 		this.qbe.clear();
 		this.qbe.querymode = true;
+		this.view.showSummaries();
 		this.view.clear(true,true);
 		this.view.display(0,this.qberec);
 
@@ -858,6 +872,8 @@ export class Block
 		this.form.QueryManager.setRunning(this,null);
 
 		this.view.lockUnused();
+		this.view.showSummaries();
+
 		return(true);
 	}
 
@@ -1149,7 +1165,24 @@ export class Block
 
 	public async copy(header?:boolean, all?:boolean) : Promise<any[][]>
 	{
-		return(this.wrapper?.copy(all,header));
+		return(this.wrapper?.copy(header,all));
+	}
+
+	public async getQueryHits() : Promise<number>
+	{
+		if (this.querymode) return(null);
+		return(this.wrapper?.getQueryHits());
+	}
+
+	public cancelQueryHits() : void
+	{
+		this.wrapper?.cancelCount();
+	}
+
+	public async aggregate(aggregates:Aggregate[]) : Promise<any[]>
+	{
+		if (this.querymode) return(null);
+		return(this.wrapper?.aggregate(aggregates));
 	}
 
 	public finalize() : void
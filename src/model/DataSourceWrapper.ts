@@ -23,6 +23,7 @@ import { MSGGRP } from "../messages/Internal.js";
 import { Record, RecordState } from "./Record.js";
 import { Relation } from "./relations/Relation.js";
 import { FilterStructure } from "./FilterStructure.js";
+import { Aggregate } from "./interfaces/Aggregate.js";
 import { Block as ModelBlock } from "../model/Block.js";
 import { Level, Messages } from "../messages/Messages.js";
 import { EventType } from "../control/events/EventType.js";
@@ -34,9 +35,14 @@ export class DataSourceWrapper
 	private eof$:boolean;
 	private cache$:Record[];
 	private hwm$:number = 0;
+	private hits$:number = null;
 	private columns$:string[] = [];
 	private source$:DataSource = null;
 	private modified$:boolean = false;
+	private filter$:FilterStructure = null;
+	private counting$:Promise<number> = null;
+	private savepoints$:Map<string,number> = new Map<string,number>();
+	private journal$:{record:Record, state:RecordState, initial:any[]}[] = [];
 
 	constructor(public block?:ModelBlock)
 	{
@@ -83,6 +89,9 @@ export class DataSourceWrapper
 
 		if (!this.dirty)
 		{
+			this.journal$ = [];
+			this.savepoints$.clear();
+
 			for (let i = 0; i < this.cache$.length; i++)
 				this.cache$[i].setClean(true);
 		}
@@ -100,6 +109,9 @@ export class DataSourceWrapper
 		this.cache$ = [];
 		this.columns$ = [];
 
+		this.cancelCount();
+		this.filter$ = null;
+
 		if (!flush)
 		{
 			this.source.clear();
@@ -166,6 +178,7 @@ export class DataSourceWrapper
 			});
 
 			let succces:boolean = true;
+			let resized:boolean = false;
 			let records:Record[] = await this.source.flush();
 
 			for (let i = 0; i < records.length; i++)
@@ -173,6 +186,9 @@ export class DataSourceWrapper
 				if (records[i].failed)
 					continue;
 
+				let state:RecordState = records[i].state;
+				let initial:any[] = records[i].getInitialValues();
+
 				if (records[i].state == RecordState.Insert)
 				{
 					records[i].flushing = true;
@@ -181,6 +197,8 @@ export class DataSourceWrapper
 
 					if (succces)
 					{
+						resized = true;
+						this.journal(records[i],state,initial);
 						records[i].state = RecordState.Inserted;
 						this.block.view.setAttributes(records[i]);
 						records[i].setClean(false);
@@ -197,6 +215,7 @@ export class DataSourceWrapper
 
 					if (succces)
 					{
+						this.journal(records[i],state,initial);
 						this.block.view.setAttributes(records[i]);
 						records[i].setClean(false);
 					}
@@ -212,6 +231,7 @@ export class DataSourceWrapper
 
 					if (succces)
 					{
+						this.journal(records[i],state,initial);
 						records[i].state = RecordState.Updated;
 						this.block.view.setAttributes(records[i]);
 						records[i].setClean(false);
@@ -228,6 +248,8 @@ export class DataSourceWrapper
 
 					if (succces)
 					{
+						resized = true;
+						this.journal(records[i],state,initial);
 						records[i].state = RecordState.Deleted;
 						this.block.view.setAttributes(records[i]);
 						records[i].setClean(false);
@@ -235,6 +257,17 @@ export class DataSourceWrapper
 				}
 			}
 
+			// Totals might have changed
+			if (records.length > 0)
+				this.block.view.showSummaries();
+
+			// The number of rows has changed, count again when asked for
+			if (resized && this.counting$ != null)
+			{
+				this.cancelCount();
+				this.block.view.showRecordCounters();
+			}
+
 			return(true);
 		}
 		catch (error)
@@ -244,6 +277,39 @@ export class DataSourceWrapper
 		}
 	}
 
+	public savepoint(name:string) : void
+	{
+		this.savepoints$.delete(name);
+		this.savepoints$.set(name,this.journal$.length);
+	}
+
+	public async rollbackTo(name:string) : Promise<boolean>
+	{
+		let mark:number = this.savepoints$.get(name);
+		if (mark == null) return(false);
+
+		this.release(name,false);
+		await this.revert(mark);
+
+		return(true);
+	}
+
+	/** Make all records flushed in the current transaction pending again */
+	public async restore() : Promise<void>
+	{
+		this.savepoints$.clear();
+		await this.revert(0);
+	}
+
+	public releaseSavepoint(name:string) : boolean
+	{
+		if (!this.savepoints$.has(name))
+			return(false);
+
+		this.release(name,true);
+		return(true);
+	}
+
 	public getValue(record:number, field:string) : any
 	{
 		return(this.cache$[record]?.getValue(field));
@@ -487,18 +553,83 @@ export class DataSourceWrapper
 
 	public async query(filter?:FilterStructure) : Promise<boolean>
 	{
+		this.cancelCount();
 		let success:boolean = await this.source.query(filter);
 
+		// Counts started during the query are stale
+		this.cancelCount();
+
 		if (success)
 		{
 			this.hwm$ = 0;
 			this.cache$ = [];
 			this.eof$ = false;
+
+			// Keep the filter for counting on request
+			this.filter$ = filter ? filter.clone() : new FilterStructure();
 		}
 
 		return(success);
 	}
 
+	/** The number of rows the last query returns, if counted */
+	public get hits() : number
+	{
+		return(this.hits$);
+	}
+
+	/** Whether counting the rows of the last query has been started */
+	public get counted() : boolean
+	{
+		return(this.counting$ != null);
+	}
+
+	/** Count the rows of the last query. Counting is done once, and only when asked for */
+	public async getQueryHits() : Promise<number>
+	{
+		if (this.counting$ == null)
+		{
+			let counting:Promise<number> = null;
+
+			// Not queried or not countable
+			if (this.filter$ == null || this.source.count == null) counting = Promise.resolve(null);
+			else counting = this.source.count(this.filter$);
+
+			// Failing to count leaves the number of rows unknown
+			counting = counting.catch((error) =>
+			{
+				Messages.handle(MSGGRP.FRAMEWORK,error,Level.fine);
+				return(null);
+			});
+
+			this.counting$ = counting;
+
+			counting.then((hits) =>
+			{if (this.counting$ == counting) this.hits$ = hits;})
+		}
+
+		return(this.counting$);
+	}
+
+	/** Compute aggregates on the rows of the last query */
+	public async aggregate(aggregates:Aggregate[]) : Promise<any[]>
+	{
+		if (this.filter$ == null || this.source.aggregate == null)
+			return(null);
+
+		return(this.source.aggregate(aggregates,this.filter$));
+	}
+
+	/** Stop counting the rows of the last query */
+	public cancelCount() : void
+	{
+		if (this.counting$)
+			this.source.cancelCount?.();
+
+		this.hits$ = null;
+		this.counting$ = null;
+	}
+
 	public async fetch() : Promise<Record>
 	{
 		if (this.hwm$ >= this.cache$.length)
@@ -518,6 +649,10 @@ export class DataSourceWrapper
 			this.cache$.push(...recs);
 		}
 
+		// Ask for the next batch while the last part of the cache is consumed
+		if (!this.eof$ && this.cache$.length - this.hwm$ <= this.source.arrayfecth)
+			this.source.prefetch?.();
+
 		let record:Record = this.cache$[this.hwm$];
 
 		if (!record.prepared)
@@ -620,6 +755,66 @@ export class DataSourceWrapper
 		return(-1);
 	}
 
+	private journal(record:Record, state:RecordState, initial:any[]) : void
+	{
+		if (this.transactional)
+			this.journal$.push({record: record, state: state, initial: initial});
+	}
+
+	private async revert(mark:number) : Promise<void>
+	{
+		let restored:Record[] = [];
+
+		// Undo in reverse order, so that each record ends up in the state it had at the mark
+		for (let i = this.journal$.length - 1; i >= mark; i--)
+		{
+			let entry:{record:Record, state:RecordState, initial:any[]} = this.journal$[i];
+
+			entry.record.restore(entry.state,entry.initial);
+			if (!restored.includes(entry.record)) restored.push(entry.record);
+		}
+
+		this.journal$.splice(mark);
+
+		for (let i = 0; i < restored.length; i++)
+		{
+			let record:Record = restored[i];
+
+			switch(record.state)
+			{
+				case RecordState.Insert :
+					await this.source.insert(record);
+				break;
+
+				case RecordState.Delete :
+					await this.source.delete(record);
+				break;
+
+				default :
+					await this.source.update(record);
+			}
+
+			if (record.state != RecordState.Delete)
+				this.block.view.setAttributes(record);
+		}
+
+		if (restored.length > 0)
+			this.modified$ = true;
+	}
+
+	private release(name:string, inclusive:boolean) : void
+	{
+		let found:boolean = false;
+
+		// Savepoints established after the given one are released with it
+		[...this.savepoints$.keys()].forEach((savepoint) =>
+		{
+			if (found) this.savepoints$.delete(savepoint);
+			if (savepoint == name) found = true;
+			if (found && inclusive) this.savepoints$.delete(savepoint);
+		})
+	}
+
 	private linkToMasters(record:Record) : void
 	{
 		let masters:ModelBlock[] = this.block.getMasterBlocks();
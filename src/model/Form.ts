@@ -132,11 +132,12 @@ export class Form
 		{block.wrapper.setSynchronized();});
 	}
 
-	public async undo() : Promise<boolean>
+	/** Undo all blocks, or only the given blocks */
+	public async undo(only?:Block[]) : Promise<boolean>
 	{
 		let dirty:Block[] = [];
 		let requery:Set<Block> = new Set<Block>();
-		let blocks:Block[] = Array.from(this.blocks$.values());
+		let blocks:Block[] = only ? only : Array.from(this.blocks$.values());
 
 		for (let i = 0; i < blocks.length; i++)
 		{
@@ -149,6 +149,29 @@ export class Record
 		this.dirty$.clear();
 	}
 
+	public getInitialValues() : any[]
+	{
+		return([...this.initial$]);
+	}
+
+	public restore(state:RecordState, initial:any[]) : void
+	{
+		this.dirty$.clear();
+		this.locked$ = false;
+
+		this.status$ = state;
+		this.initial$ = [...initial];
+
+		for (let i = 0; i < this.source.columns.length; i++)
+		{
+			if (this.values$[i] != this.initial$[i])
+				this.dirty$.add(this.source.columns[i]);
+		}
+
+		if (this.dirty$.size == 0)
+			this.setDirty();
+	}
+
 	public get source() : DataSource
 	{
 		return(this.source$);
@@ -23,6 +23,7 @@ import { Filter } from "../interfaces/Filter.js";
 import { Record, RecordState } from "../Record.js";
 import { FilterStructure } from "../FilterStructure.js";
 import { DataSource, LockMode } from "../interfaces/DataSource.js";
+import { Aggregate, AggregateFunction } from "../interfaces/Aggregate.js";
 
 export class MemoryTable implements DataSource
 {
@@ -115,6 +116,24 @@ public constructor(columns?:string|string[], records?:number|any[][])
 		})
 	}
 
+	/** Get table data */
+	public getData() : any[][]
+	{
+		let data:any[][] = [];
+
+		this.records$.forEach((rec) =>
+		{
+			let row:any[] = [];
+
+			for (let c = 0; c < this.columns$.length; c++)
+				row.push(rec.getValue(this.columns$[c]));
+
+			data.push(row);
+		})
+
+		return(data);
+	}
+
 	/** Clones the datasource */
 	public clone(columns?:string|string[]) : MemoryTable
 	{
@@ -378,6 +397,81 @@ public constructor(columns?:string|string[], records?:number|any[][])
 		return(true);
 	}
 
+	/** Count the records matching the filter */
+	public async count(filter?:FilterStructure) : Promise<number>
+	{
+		let hits:number = 0;
+		filter = filter?.clone();
+
+		if (this.limit$ != null)
+		{
+			if (!filter) filter = this.limit$;
+			else filter.and(this.limit$,"limit");
+		}
+
+		for (let i = 0; i < this.records$.length; i++)
+		{
+			let rec:Record = this.records$[i];
+
+			if (filter == null || filter.empty || await filter.evaluate(rec))
+				hits++;
+		}
+
+		return(hits);
+	}
+
+	/** Compute aggregates on the records matching the filter */
+	public async aggregate(aggregates:Aggregate[], filter?:FilterStructure) : Promise<any[]>
+	{
+		let result:any[] = [];
+		let records:Record[] = [];
+
+		filter = filter?.clone();
+
+		if (this.limit$ != null)
+		{
+			if (!filter) filter = this.limit$;
+			else filter.and(this.limit$,"limit");
+		}
+
+		for (let i = 0; i < this.records$.length; i++)
+		{
+			let rec:Record = this.records$[i];
+
+			if (filter == null || filter.empty || await filter.evaluate(rec))
+				records.push(rec);
+		}
+
+		aggregates.forEach((aggr) =>
+		{
+			let count:number = 0;
+			let value:any = null;
+
+			records.forEach((rec) =>
+			{
+				let next:any = aggr.column ? rec.getValue(aggr.column) : 1;
+				if (next == null) return;
+
+				count++;
+
+				switch(aggr.function)
+				{
+					case AggregateFunction.avg:
+					case AggregateFunction.sum: value = value == null ? +next : value + +next; break;
+					case AggregateFunction.min: if (value == null || next < value) value = next; break;
+					case AggregateFunction.max: if (value == null || next > value) value = next; break;
+				}
+			})
+
+			if (aggr.function == AggregateFunction.count) value = count;
+			if (aggr.function == AggregateFunction.avg && count > 0) value = value / count;
+
+			result.push(value);
+		})
+
+		return(result);
+	}
+
 	/** Fetch a set of records */
 	public async fetch() : Promise<Record[]>
 	{
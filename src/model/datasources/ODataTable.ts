@@ -0,0 +1,374 @@
+/*
+  MIT License
+
+  Copyright © 2023 Alex Høffner
+
+  Permission is hereby granted, free of charge, to any person obtaining a copy of this software
+  and associated documentation files (the “Software”), to deal in the Software without
+  restriction, including without limitation the rights to use, copy, modify, merge, publish,
+  distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the
+  Software is furnished to do so, subject to the following conditions:
+
+  The above copyright notice and this permission notice shall be included in all copies or
+  substantial portions of the Software.
+
+  THE SOFTWARE IS PROVIDED “AS IS”, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING
+  BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+  NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM,
+  DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+  FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+import { Record } from "../Record.js";
+import { Like } from "../filters/Like.js";
+import { ILike } from "../filters/ILike.js";
+import { AnyOf } from "../filters/AnyOf.js";
+import { IsNull } from "../filters/IsNull.js";
+import { NoneOf } from "../filters/NoneOf.js";
+import { Equals } from "../filters/Equals.js";
+import { Between } from "../filters/Between.js";
+import { Filter } from "../interfaces/Filter.js";
+import { LessThan } from "../filters/LessThan.js";
+import { MSGGRP } from "../../messages/Internal.js";
+import { Messages } from "../../messages/Messages.js";
+import { LockMode } from "../interfaces/DataSource.js";
+import { FilterStructure } from "../FilterStructure.js";
+import { GreaterThan } from "../filters/GreaterThan.js";
+import { RestOperation, RestPaging, RestTable } from "./RestTable.js";
+import { Connection, HTTPResponse } from "../../public/Connection.js";
+import { HTTPRequest, Interceptor } from "../../public/Interceptor.js";
+
+/**
+ * Datasource based on an OData v4 entity set.
+ * Filters are translated into $filter and sorting into $orderby.
+ * Updates and deletes are sent with the ETag of the entity in If-Match,
+ * so changes made by others since the record was fetched are rejected.
+ */
+export class ODataTable extends RestTable
+{
+	private counter$:AbortController = null;
+
+	private etags$:WeakMap<Record,string> =
+		new WeakMap<Record,string>();
+
+	private static interceptors$:WeakMap<Connection,ETagInterceptor> =
+		new WeakMap<Connection,ETagInterceptor>();
+
+	/**
+	 *  @param connection : the connection to the OData service, if null the origin of the page is used
+	 *  @param entityset : the name of the entity set
+	 *  @param columns : the columns, if none the properties of the first entity are used
+	 */
+	public constructor(connection:Connection, entityset:string, columns?:string|string[])
+	{
+		super(connection,entityset,columns);
+
+		this.rowsPath = "value";
+		this.sortParameter = "$orderby";
+		this.nextPath = "@odata.nextLink";
+
+		this.paging = RestPaging.offset;
+		this.rowlocking = LockMode.Optimistic;
+
+		this.setEndpoint(RestOperation.update,"PATCH");
+		this.setPagingParameters({offset: "$skip", limit: "$top"});
+	}
+
+	/** Count the entities matching the filter, null if it cannot be done on the server */
+	public async count(filter?:FilterStructure) : Promise<number>
+	{
+		filter = filter?.clone();
+		let limit:FilterStructure = this.getFilters();
+
+		if (limit != null)
+		{
+			if (!filter) filter = limit;
+			else filter.and(limit,"limit");
+		}
+
+		let params:URLSearchParams = new URLSearchParams();
+
+		if (filter && !filter.empty && !this.translate(filter,params))
+			return(null);
+
+		let url:string = this.path(RestOperation.query,null)+"/$count";
+		if (params.has("$filter")) url += "?"+params.toString();
+
+		this.cancelCount();
+		let counter:AbortController = new AbortController();
+
+		this.counter$ = counter;
+		let response:HTTPResponse = await this.connection.request("GET",url,null,true,counter.signal);
+
+		if (this.counter$ == counter)
+			this.counter$ = null;
+
+		if (this.failed(response))
+			return(null);
+
+		return(+response.body);
+	}
+
+	/** Stop counting */
+	public cancelCount() : void
+	{
+		this.counter$?.abort();
+		this.counter$ = null;
+	}
+
+	protected translate(filter:FilterStructure, params:URLSearchParams) : boolean
+	{
+		let expr:{clause:string, complete:boolean} = this.expression(filter);
+		if (expr.clause) params.set("$filter",expr.clause);
+		return(expr.complete);
+	}
+
+	protected key(record:Record) : string
+	{
+		let keys:string[] = this.primaryKey;
+
+		if (keys.length == 1)
+			return("("+encodeURIComponent(ODataTable.literal(record?.getValue(keys[0])))+")");
+
+		let parts:string[] = keys.map((col) =>
+			this.field(col)+"="+encodeURIComponent(ODataTable.literal(record?.getValue(col))));
+
+		return("("+parts.join(",")+")");
+	}
+
+	protected merge(record:Record, row:any) : void
+	{
+		super.merge(record,row);
+
+		let etag:string = row?.["@odata.etag"];
+		if (etag != null) this.etags$.set(record,etag);
+	}
+
+	protected async request(operation:RestOperation, record:Record, payload?:any) : Promise<HTTPResponse>
+	{
+		let headers:any = {};
+		let etag:string = this.etags$.get(record);
+
+		if (operation == RestOperation.insert || operation == RestOperation.update)
+			headers["Prefer"] = "return=representation";
+
+		if (etag != null && operation != RestOperation.insert && operation != RestOperation.refresh)
+			headers["If-Match"] = etag;
+
+		let url:URL = new URL(this.path(operation,record),this.connection.baseURL);
+		let interceptor:ETagInterceptor = ODataTable.interceptor(this.connection);
+
+		interceptor.expect(url,headers);
+		let response:HTTPResponse = await super.request(operation,record,payload);
+		interceptor.forget(url);
+
+		// Without the new representation, the ETag is only known from the header
+		if (operation == RestOperation.update && response.success && response.body == null)
+		{
+			let etag:string = response.headers?.get("etag");
+
+			if (etag != null) this.etags$.set(record,etag);
+			else this.etags$.delete(record);
+		}
+
+		return(response);
+	}
+
+	protected report(operation:RestOperation, response:HTTPResponse) : void
+	{
+		if (response.status == 412)
+		{
+			// Record has been changed by another user
+			Messages.warn(MSGGRP.TRX,20);
+			return;
+		}
+
+		// OData wraps the message in an error object
+		if (response.body?.error)
+		{
+			let error:HTTPResponse = new HTTPResponse();
+
+			error.body = response.body.error;
+			error.status = response.status;
+			error.success = response.success;
+
+			response = error;
+		}
+
+		super.report(operation,response);
+	}
+
+	private expression(filter:FilterStructure) : {clause:string, complete:boolean}
+	{
+		let clause:string = "";
+		let complete:boolean = true;
+
+		let entries:{or:boolean, filter:Filter|FilterStructure}[] = filter["entries$"];
+		let ors:boolean = entries.some((entry,i) => i > 0 && entry.or);
+
+		for (let i = 0; i < entries.length; i++)
+		{
+			let part:string = null;
+
+			if (entries[i].filter instanceof FilterStructure)
+			{
+				let nested:{clause:string, complete:boolean} =
+					this.expression(entries[i].filter as FilterStructure);
+
+				if (nested.clause) part = "("+nested.clause+")";
+				if (!nested.complete) complete = false;
+			}
+			else
+			{
+				part = this.predicate(entries[i].filter as Filter);
+				if (part == null) complete = false;
+			}
+
+			// Leaving out part of an 'or' would exclude rows that match
+			if (ors && !complete)
+				return({clause: null, complete: false});
+
+			if (part == null)
+				continue;
+
+			if (clause.length > 0) clause += entries[i].or ? " or " : " and ";
+			clause += part;
+		}
+
+		return({clause: clause, complete: complete});
+	}
+
+	private predicate(filter:Filter) : string
+	{
+		if (filter.column == null)
+			return(null);
+
+		let field:string = this.field(filter.column).replace(/\./g,"/");
+		let values:any[] = filter.getBindValues()?.map((bv) => bv.value);
+
+		if (filter instanceof IsNull)
+			return(field+" eq null");
+
+		if (filter instanceof AnyOf || filter instanceof NoneOf)
+		{
+			let list:any[] = values;
+
+			if (list == null || list.length == 0)
+				list = filter.constraint;
+
+			if (!Array.isArray(list) || list.length == 0)
+				return(null);
+
+			let clause:string = field+" in ("+list.map((value) => ODataTable.literal(value)).join(",")+")";
+
+			if (filter instanceof NoneOf) clause = "not ("+clause+")";
+			return(clause);
+		}
+
+		if (values == null || values.length == 0)
+			return(null);
+
+		if (filter instanceof Equals)
+			return(field+" eq "+ODataTable.literal(values[0]));
+
+		if (filter instanceof GreaterThan)
+			return(field+(filter.includes ? " ge " : " gt ")+ODataTable.literal(values[0]));
+
+		if (filter instanceof LessThan)
+			return(field+(filter.includes ? " le " : " lt ")+ODataTable.literal(values[0]));
+
+		// Also DateInterval
+		if (filter instanceof Between)
+		{
+			let fr:string = field+(filter.includes ? " ge " : " gt ")+ODataTable.literal(values[0]);
+			let to:string = field+(filter.includes ? " le " : " lt ")+ODataTable.literal(values[1]);
+			return("("+fr+" and "+to+")");
+		}
+
+		if (filter instanceof Like)
+			return(ODataTable.like(field,values[0],false));
+
+		if (filter instanceof ILike)
+			return(ODataTable.like(field,values[0],true));
+
+		return(null);
+	}
+
+	private static like(field:string, value:any, lower:boolean) : string
+	{
+		if (value == null)
+			return(null);
+
+		value = value+"";
+
+		if (lower)
+		{
+			value = value.toLocaleLowerCase();
+			field = "tolower("+field+")";
+		}
+
+		let ltrunc:boolean = value.startsWith("%");
+		let rtrunc:boolean = value.endsWith("%");
+
+		if (ltrunc) value = value.substring(1);
+		if (rtrunc) value = value.substring(0,value.length-1);
+
+		// Inner wildcards cannot be expressed, leave the filter to the client
+		if (value.includes("%") || value.includes("_"))
+			return(null);
+
+		let literal:string = ODataTable.literal(value);
+
+		if (ltrunc && rtrunc) return("contains("+field+","+literal+")");
+		if (rtrunc) return("startswith("+field+","+literal+")");
+		if (ltrunc) return("endswith("+field+","+literal+")");
+
+		return(field+" eq "+literal);
+	}
+
+	private static literal(value:any) : string
+	{
+		if (value == null) return("null");
+		if (value instanceof Date) return(value.toISOString());
+		if (typeof value === "string") return("'"+value.replace(/'/g,"''")+"'");
+		return(""+value);
+	}
+
+	private static interceptor(connection:Connection) : ETagInterceptor
+	{
+		let interceptor:ETagInterceptor = ODataTable.interceptors$.get(connection);
+
+		if (interceptor == null)
+		{
+			interceptor = new ETagInterceptor();
+			connection.addInterceptor(interceptor);
+			ODataTable.interceptors$.set(connection,interceptor);
+		}
+
+		return(interceptor);
+	}
+}
+
+class ETagInterceptor implements Interceptor
+{
+	private headers$:Map<string,any> =
+		new Map<string,any>();
+
+	public expect(url:URL, headers:any) : void
+	{
+		this.headers$.set(url.toString(),headers);
+	}
+
+	public forget(url:URL) : void
+	{
+		this.headers$.delete(url.toString());
+	}
+
+	public async beforeRequest(request:HTTPRequest) : Promise<void>
+	{
+		let headers:any = this.headers$.get(request.url.toString());
+
+		if (headers != null)
+			request.headers = {...request.headers, ...headers};
+	}
+}
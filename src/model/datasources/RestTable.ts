@@ -0,0 +1,977 @@
+/*
+  MIT License
+
+  Copyright © 2023 Alex Høffner
+
+  Permission is hereby granted, free of charge, to any person obtaining a copy of this software
+  and associated documentation files (the “Software”), to deal in the Software without
+  restriction, including without limitation the rights to use, copy, modify, merge, publish,
+  distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the
+  Software is furnished to do so, subject to the following conditions:
+
+  The above copyright notice and this permission notice shall be included in all copies or
+  substantial portions of the Software.
+
+  THE SOFTWARE IS PROVIDED “AS IS”, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING
+  BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+  NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM,
+  DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+  FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+import { Like } from "../filters/Like.js";
+import { AnyOf } from "../filters/AnyOf.js";
+import { Equals } from "../filters/Equals.js";
+import { Between } from "../filters/Between.js";
+import { Filter } from "../interfaces/Filter.js";
+import { LessThan } from "../filters/LessThan.js";
+import { Record, RecordState } from "../Record.js";
+import { MSGGRP } from "../../messages/Internal.js";
+import { DataType } from "../../database/DataType.js";
+import { FilterStructure } from "../FilterStructure.js";
+import { GreaterThan } from "../filters/GreaterThan.js";
+import { Messages } from "../../messages/Messages.js";
+import { DataSource, LockMode } from "../interfaces/DataSource.js";
+import { Connection, HTTPResponse } from "../../public/Connection.js";
+
+/** The operations that can be mapped to an endpoint */
+export enum RestOperation
+{
+	query,
+	refresh,
+	lock,
+	insert,
+	update,
+	delete
+}
+
+/** How the next set of rows is requested */
+export enum RestPaging
+{
+	none,
+	offset,
+	page,
+	cursor,
+	link
+}
+
+/** Names of the paging parameters */
+export interface PagingParameters
+{
+	offset?:string;
+	limit?:string;
+	page?:string;
+	size?:string;
+	cursor?:string;
+}
+
+/**
+ * Datasource based on a REST/JSON backend, accessed through a Connection.
+ * Each operation is mapped to a method and a path. Paths can refer to
+ * column values as {column}. By default the record operations use the
+ * resource followed by the primary key values.
+ *
+ * Filters are sent as query parameters named from operator templates
+ * where % is replaced by the field name. Filters that cannot be sent,
+ * e.g. because of 'or' conditions, are applied to the fetched rows.
+ */
+export class RestTable implements DataSource
+{
+	public name:string;
+	public arrayfecth:number = 32;
+	public rowlocking = LockMode.None;
+	public queryallowed:boolean = true;
+	public insertallowed:boolean = true;
+	public updateallowed:boolean = true;
+	public deleteallowed:boolean = true;
+
+	private page$:number = 0;
+	private first$:number = 1;
+	private eof$:boolean = true;
+	private next$:string = null;
+	private rows$:string = null;
+	private order$:string = null;
+	private record$:string = null;
+	private resource$:string = null;
+	private nextpath$:string = "next";
+	private sortparam$:string = "sort";
+	private paging$:RestPaging = RestPaging.none;
+
+	private dirty$:Record[] = [];
+	private primary$:string[] = [];
+	private columns$:string[] = [];
+	private fetched$:Record[] = [];
+
+	private conn$:Connection = null;
+	private filter$:FilterStructure = null;
+	private limit$:FilterStructure = null;
+	private params$:URLSearchParams = null;
+	private controller$:AbortController = null;
+
+	private pageparams$:PagingParameters =
+	{
+		offset: "offset",
+		limit: "limit",
+		page: "page",
+		size: "size",
+		cursor: "cursor"
+	};
+
+	private fields$:Map<string,string> =
+		new Map<string,string>();
+
+	private datatypes$:Map<string,DataType> =
+		new Map<string,DataType>();
+
+	private operators$:Map<string,string> = new Map<string,string>
+	([
+		["eq","%"],
+		["gt","%[gt]"],
+		["gte","%[gte]"],
+		["lt","%[lt]"],
+		["lte","%[lte]"],
+		["like","%[like]"],
+		["in","%[in]"]
+	]);
+
+	private endpoints$:Map<RestOperation,Endpoint> = new Map<RestOperation,Endpoint>
+	([
+		[RestOperation.query, new Endpoint("GET")],
+		[RestOperation.refresh, new Endpoint("GET")],
+		[RestOperation.lock, new Endpoint(null)],
+		[RestOperation.insert, new Endpoint("POST")],
+		[RestOperation.update, new Endpoint("PUT")],
+		[RestOperation.delete, new Endpoint("DELETE")]
+	]);
+
+	/**
+	 *  @param connection : the connection to the backend, if null the origin of the page is used
+	 *  @param resource : the path of the resource relative to the connection
+	 *  @param columns : the columns, if none the fields of the first row are used
+	 */
+	public constructor(connection:Connection, resource:string, columns?:string|string[])
+	{
+		if (connection == null)
+			connection = new Connection();
+
+		this.conn$ = connection;
+		this.resource$ = resource;
+
+		this.name = this.constructor.name.toLowerCase();
+		if (columns != null) this.addColumns(columns);
+	}
+
+	/** The connection used by this datasource */
+	public get connection() : Connection
+	{
+		return(this.conn$);
+	}
+
+	/** The connection used by this datasource */
+	public set connection(connection:Connection)
+	{
+		this.conn$ = connection;
+	}
+
+	/** The path of the resource */
+	public get resource() : string
+	{
+		return(this.resource$);
+	}
+
+	/** The path of the resource */
+	public set resource(resource:string)
+	{
+		this.resource$ = resource;
+	}
+
+	/** The datasource is not transactional */
+	public get transactional() : boolean
+	{
+		return(false);
+	}
+
+	/** The primary key columns, used in the default record paths */
+	public get primaryKey() : string[]
+	{
+		return(this.primary$);
+	}
+
+	/** The primary key columns, used in the default record paths */
+	public set primaryKey(columns:string|string[])
+	{
+		if (columns == null)
+			columns = [];
+
+		if (!Array.isArray(columns))
+			columns = [columns];
+
+		this.primary$ = columns.map((col) => col.toLowerCase());
+	}
+
+	/** Sorting, sent as is in the sort parameter */
+	public get sorting() : string
+	{
+		return(this.order$);
+	}
+
+	/** Sorting, sent as is in the sort parameter */
+	public set sorting(order:string)
+	{
+		this.order$ = order;
+	}
+
+	/** The name of the sort parameter, null if sorting is not supported */
+	public get sortParameter() : string
+	{
+		return(this.sortparam$);
+	}
+
+	/** The name of the sort parameter, null if sorting is not supported */
+	public set sortParameter(name:string)
+	{
+		this.sortparam$ = name;
+	}
+
+	/** Path to the rows in the query response, null if the response is the rows */
+	public get rowsPath() : string
+	{
+		return(this.rows$);
+	}
+
+	/** Path to the rows in the query response, null if the response is the rows */
+	public set rowsPath(path:string)
+	{
+		this.rows$ = path;
+	}
+
+	/** Path to the row in single record responses, null if the response is the row */
+	public get recordPath() : string
+	{
+		return(this.record$);
+	}
+
+	/** Path to the row in single record responses, null if the response is the row */
+	public set recordPath(path:string)
+	{
+		this.record$ = path;
+	}
+
+	/** How the next set of rows is requested */
+	public get paging() : RestPaging
+	{
+		return(this.paging$);
+	}
+
+	/** How the next set of rows is requested */
+	public set paging(paging:RestPaging)
+	{
+		this.paging$ = paging;
+	}
+
+	/** The number of the first page when paging by page */
+	public get firstPage() : number
+	{
+		return(this.first$);
+	}
+
+	/** The number of the first page when paging by page */
+	public set firstPage(page:number)
+	{
+		this.first$ = page;
+	}
+
+	/** Path to the cursor or link of the next page in the query response. With offset or page paging, a link found is followed */
+	public get nextPath() : string
+	{
+		return(this.nextpath$);
+	}
+
+	/** Path to the cursor or link of the next page in the query response. With offset or page paging, a link found is followed */
+	public set nextPath(path:string)
+	{
+		this.nextpath$ = path;
+	}
+
+	/** Rename the paging parameters */
+	public setPagingParameters(params:PagingParameters) : RestTable
+	{
+		this.pageparams$ = {...this.pageparams$, ...params};
+		return(this);
+	}
+
+	/** Map an operation to a method and a path. The path can refer to column values as {column} */
+	public setEndpoint(operation:RestOperation, method:string, path?:string) : RestTable
+	{
+		this.endpoints$.set(operation,new Endpoint(method?.toUpperCase(),path));
+		return(this);
+	}
+
+	/** Set the parameter template for an operator (eq, gt, gte, lt, lte, like, in). Null means the filter is applied locally */
+	public setOperator(operator:string, template:string) : RestTable
+	{
+		this.operators$.set(operator?.toLowerCase(),template);
+		return(this);
+	}
+
+	/** Map a column to a field in the json rows. Nested fields are separated by '.' */
+	public mapColumn(column:string, field:string) : RestTable
+	{
+		this.fields$.set(column?.toLowerCase(),field);
+		return(this);
+	}
+
+	/** Force a datatype */
+	public setDataType(column:string, type:DataType) : RestTable
+	{
+		this.datatypes$.set(column?.toLowerCase(),type);
+		return(this);
+	}
+
+	/** Abort running requests */
+	public clear() : void
+	{
+		this.controller$?.abort();
+
+		this.eof$ = true;
+		this.fetched$ = [];
+		this.controller$ = null;
+	}
+
+	/** Clones the datasource */
+	public clone() : RestTable
+	{
+		let clone:RestTable = Reflect.construct(this.constructor,[this.conn$,this.resource$,this.columns$]);
+
+		clone.rows$ = this.rows$;
+		clone.first$ = this.first$;
+		clone.sorting = this.sorting;
+		clone.record$ = this.record$;
+		clone.paging$ = this.paging$;
+		clone.fields$ = this.fields$;
+		clone.primary$ = this.primary$;
+		clone.nextpath$ = this.nextpath$;
+		clone.rowlocking = this.rowlocking;
+		clone.endpoints$ = this.endpoints$;
+		clone.operators$ = this.operators$;
+		clone.datatypes$ = this.datatypes$;
+		clone.arrayfecth = this.arrayfecth;
+		clone.sortparam$ = this.sortparam$;
+		clone.pageparams$ = this.pageparams$;
+
+		return(clone);
+	}
+
+	/** The columns used by this datasource */
+	public get columns() : string[]
+	{
+		return(this.columns$);
+	}
+
+	/** Add columns used by this datasource */
+	public addColumns(columns:string|string[]) : RestTable
+	{
+		if (!Array.isArray(columns))
+			columns = [columns];
+
+		columns.forEach((column) =>
+		{
+			column = column?.toLowerCase();
+
+			if (column && !this.columns$.includes(column))
+				this.columns$.push(column);
+		})
+
+		return(this);
+	}
+
+	/** Remove columns used by this datasource */
+	public removeColumns(columns:string|string[]) : RestTable
+	{
+		if (!Array.isArray(columns))
+			columns = [columns];
+
+		for (let i = 0; i < columns.length; i++)
+			columns[i] = columns[i]?.toLowerCase();
+
+		this.columns$ = this.columns$.filter((col) => !columns.includes(col));
+		return(this);
+	}
+
+	/** Return the default filters */
+	public getFilters() : FilterStructure
+	{
+		return(this.limit$);
+	}
+
+	/** Add a default filter */
+	public addFilter(filter:Filter | FilterStructure) : RestTable
+	{
+		if (this.limit$ == null)
+		{
+			if (filter instanceof FilterStructure)
+			{
+				this.limit$ = filter;
+				return(this);
+			}
+
+			this.limit$ = new FilterStructure();
+		}
+
+		this.limit$.and(filter);
+		return(this);
+	}
+
+	/** Lock the record using the lock endpoint, if any */
+	public async lock(record:Record) : Promise<boolean>
+	{
+		if (record.locked)
+			return(true);
+
+		if (!this.rowlocking)
+			return(true);
+
+		if (this.endpoints$.get(RestOperation.lock).method == null)
+			return(true);
+
+		let response:HTTPResponse = await this.request(RestOperation.lock,record);
+
+		if (this.failed(response))
+		{
+			if (response.status == 404)
+			{
+				record.state = RecordState.Deleted;
+				Messages.warn(MSGGRP.TRX,11); // Record has been deleted by another user
+			}
+			else if (response.status == 409 || response.status == 423)
+			{
+				Messages.warn(MSGGRP.TRX,12); // Record is locked by another user
+			}
+			else
+			{
+				this.report(RestOperation.lock,response);
+			}
+
+			return(false);
+		}
+
+		return(true);
+	}
+
+	/** Undo not flushed changes */
+	public async undo() : Promise<Record[]>
+	{
+		let undo:Record[] = [];
+
+		for (let i = 0; i < this.dirty$.length; i++)
+		{
+			this.dirty$[i].refresh();
+			undo.push(this.dirty$[i]);
+		}
+
+		return(undo);
+	}
+
+	/** Flush changes to backend */
+	public async flush() : Promise<Record[]>
+	{
+		let processed:Record[] = [];
+
+		for (let i = 0; i < this.dirty$.length; i++)
+		{
+			let rec:Record = this.dirty$[i];
+			let operation:RestOperation = null;
+
+			if (rec.failed)
+				continue;
+
+			if (rec.state == RecordState.Insert) operation = RestOperation.insert;
+			else if (rec.state == RecordState.Delete) operation = RestOperation.delete;
+			else if (rec.state != RecordState.Deleted && rec.dirty) operation = RestOperation.update;
+
+			if (operation == null)
+				continue;
+
+			processed.push(rec);
+			rec.response = null;
+
+			let response:HTTPResponse = await this.request(operation,rec,this.payload(operation,rec));
+			rec.response = response.body;
+
+			if (this.failed(response))
+			{
+				rec.failed = true;
+				rec.locked = false;
+
+				if (!response.body?.aborted)
+					this.report(operation,response);
+
+				continue;
+			}
+
+			if (operation != RestOperation.delete)
+				this.merge(rec,RestTable.extract(response.body,this.record$));
+		}
+
+		// Failed records are sent again when corrected, which clears failed
+		this.dirty$ = this.dirty$.filter((rec) => rec.failed);
+		return(processed);
+	}
+
+	/** Re-fetch the given record from the backend */
+	public async refresh(record:Record) : Promise<boolean>
+	{
+		let response:HTTPResponse = await this.request(RestOperation.refresh,record);
+
+		if (this.failed(response))
+		{
+			if (response.status == 404)
+			{
+				record.state = RecordState.Delete;
+				Messages.warn(MSGGRP.SQL,1); // Record has been deleted
+			}
+			else if (!response.body?.aborted)
+			{
+				this.report(RestOperation.refresh,response);
+			}
+
+			return(false);
+		}
+
+		record.refresh();
+		this.merge(record,RestTable.extract(response.body,this.record$));
+
+		record.state = RecordState.Consistent;
+		return(true);
+	}
+
+	/** Create a record for inserting a row */
+	public async insert(record:Record) : Promise<boolean>
+	{
+		if (!this.dirty$.includes(record))
+			this.dirty$.push(record);
+		return(true);
+	}
+
+	/** Mark a record for updating a row */
+	public async update(record:Record) : Promise<boolean>
+	{
+		if (!this.dirty$.includes(record))
+			this.dirty$.push(record);
+		return(true);
+	}
+
+	/** Mark a record for deleting a row */
+	public async delete(record:Record) : Promise<boolean>
+	{
+		if (!this.dirty$.includes(record))
+			this.dirty$.push(record);
+		return(true);
+	}
+
+	/** Execute the query */
+	public async query(filter?:FilterStructure) : Promise<boolean>
+	{
+		this.clear();
+		this.dirty$ = [];
+
+		this.filter$ = null;
+		filter = filter?.clone();
+
+		if (this.limit$ != null)
+		{
+			if (!filter) filter = this.limit$;
+			else filter.and(this.limit$,"limit");
+		}
+
+		let params:URLSearchParams = new URLSearchParams();
+
+		if (filter && !filter.empty && !this.translate(filter,params))
+			this.filter$ = filter;
+
+		if (this.order$ && this.sortparam$)
+			params.set(this.sortparam$,this.order$);
+
+		this.next$ = null;
+		this.eof$ = false;
+		this.params$ = params;
+
+		this.page$ = 0;
+		if (this.paging$ == RestPaging.page) this.page$ = this.first$;
+
+		let fetched:Record[] = await this.next();
+
+		if (fetched == null)
+			return(false);
+
+		this.fetched$ = await this.filter(fetched);
+		return(true);
+	}
+
+	/** Fetch a set of records */
+	public async fetch() : Promise<Record[]>
+	{
+		if (this.fetched$.length > 0)
+		{
+			let fetched:Record[] = this.fetched$;
+			this.fetched$ = [];
+			return(fetched);
+		}
+
+		while (!this.eof$)
+		{
+			let fetched:Record[] = await this.next();
+
+			if (fetched == null)
+				return([]);
+
+			fetched = await this.filter(fetched);
+
+			if (fetched.length > 0)
+				return(fetched);
+		}
+
+		return([]);
+	}
+
+	/** Stop fetching */
+	public async closeCursor() : Promise<boolean>
+	{
+		this.clear();
+		return(true);
+	}
+
+	private async next() : Promise<Record[]>
+	{
+		let size:number = this.arrayfecth;
+		let url:string = this.path(RestOperation.query,null);
+		let params:URLSearchParams = new URLSearchParams(this.params$);
+
+		switch(this.paging$)
+		{
+			case RestPaging.offset:
+				if (this.next$ != null) {url = this.next$; params = null; break;}
+				params.set(this.pageparams$.offset,""+this.page$);
+				params.set(this.pageparams$.limit,""+size);
+				break;
+
+			case RestPaging.page:
+				if (this.next$ != null) {url = this.next$; params = null; break;}
+				params.set(this.pageparams$.page,""+this.page$);
+				params.set(this.pageparams$.size,""+size);
+				break;
+
+			case RestPaging.cursor:
+				if (this.next$ != null) params.set(this.pageparams$.cursor,this.next$);
+				break;
+
+			case RestPaging.link:
+				if (this.next$ != null) {url = this.next$; params = null;}
+				break;
+		}
+
+		let query:string = params?.toString();
+		if (query) url += (url.includes("?") ? "&" : "?") + query;
+
+		let method:string = this.endpoints$.get(RestOperation.query).method;
+
+		this.controller$ = new AbortController();
+		let response:HTTPResponse = await this.conn$.request(method,url,null,false,this.controller$.signal);
+
+		if (this.failed(response))
+		{
+			this.eof$ = true;
+
+			if (!response.body?.aborted)
+				this.report(RestOperation.query,response);
+
+			return(null);
+		}
+
+		let rows:any = RestTable.extract(response.body,this.rows$);
+
+		if (rows == null) rows = [];
+		if (!Array.isArray(rows)) rows = [rows];
+
+		switch(this.paging$)
+		{
+			case RestPaging.none:
+				this.eof$ = true;
+				break;
+
+			case RestPaging.offset:
+				this.page$ += rows.length;
+				this.next$ = RestTable.extract(response.body,this.nextpath$);
+				this.eof$ = this.next$ == null ? rows.length < size : rows.length == 0;
+				break;
+
+			case RestPaging.page:
+				this.page$++;
+				this.next$ = RestTable.extract(response.body,this.nextpath$);
+				this.eof$ = this.next$ == null ? rows.length < size : rows.length == 0;
+				break;
+
+			case RestPaging.cursor:
+			case RestPaging.link:
+				this.next$ = RestTable.extract(response.body,this.nextpath$);
+				this.eof$ = this.next$ == null || rows.length == 0;
+				break;
+		}
+
+		if (this.columns$.length == 0 && rows.length > 0)
+			this.addColumns(Object.keys(rows[0]));
+
+		let fetched:Record[] = [];
+
+		for (let i = 0; i < rows.length; i++)
+		{
+			let record:Record = new Record(this);
+
+			this.merge(record,rows[i]);
+			record.cleanup();
+
+			fetched.push(record);
+		}
+
+		return(fetched);
+	}
+
+	private async filter(records:Record[]) : Promise<Record[]>
+	{
+		if (this.filter$)
+		{
+			let passed:Record[] = [];
+
+			for (let i = 0; i < records.length; i++)
+			{
+				if (await this.filter$.evaluate(records[i]))
+					passed.push(records[i]);
+			}
+
+			records = passed;
+		}
+
+		return(records);
+	}
+
+	protected translate(filter:FilterStructure, params:URLSearchParams) : boolean
+	{
+		let complete:boolean = true;
+		let entries:{or:boolean, filter:Filter|FilterStructure}[] = filter["entries$"];
+
+		// Parameters can only express 'and'
+		if (entries.some((entry,i) => i > 0 && entry.or))
+			return(false);
+
+		entries.forEach((entry) =>
+		{
+			if (entry.filter instanceof FilterStructure)
+			{
+				if (!this.translate(entry.filter,params))
+					complete = false;
+			}
+			else if (!this.parameter(entry.filter,params))
+			{
+				complete = false;
+			}
+		})
+
+		return(complete);
+	}
+
+	private parameter(filter:Filter, params:URLSearchParams) : boolean
+	{
+		let op1:string = null;
+		let op2:string = null;
+
+		if (filter.column == null)
+			return(false);
+
+		if (filter instanceof Equals) op1 = "eq";
+		else if (filter instanceof Like) op1 = "like";
+		else if (filter instanceof AnyOf) op1 = "in";
+		else if (filter instanceof GreaterThan) op1 = filter.includes ? "gte" : "gt";
+		else if (filter instanceof LessThan) op1 = filter.includes ? "lte" : "lt";
+		else if (filter instanceof Between) {op1 = filter.includes ? "gte" : "gt"; op2 = filter.includes ? "lte" : "lt";}
+
+		let templ1:string = this.operators$.get(op1);
+		let templ2:string = this.operators$.get(op2);
+
+		if (templ1 == null || (op2 != null && templ2 == null))
+			return(false);
+
+		let values:any[] = filter.getBindValues()?.map((bv) => RestTable.format(bv.value));
+
+		if (values == null || values.length == 0)
+			return(false);
+
+		let field:string = this.field(filter.column);
+
+		if (op1 == "in")
+		{
+			params.append(templ1.replace("%",field),values.join(","));
+			return(true);
+		}
+
+		params.append(templ1.replace("%",field),values[0]);
+		if (op2 != null) params.append(templ2.replace("%",field),values[1]);
+
+		return(true);
+	}
+
+	protected async request(operation:RestOperation, record:Record, payload?:any) : Promise<HTTPResponse>
+	{
+		let method:string = this.endpoints$.get(operation).method;
+		if (method == "GET" || method == "DELETE") payload = null;
+		return(this.conn$.request(method,this.path(operation,record),payload,false));
+	}
+
+	protected path(operation:RestOperation, record:Record) : string
+	{
+		let path:string = this.endpoints$.get(operation).path;
+
+		if (path == null)
+		{
+			path = this.resource$;
+
+			if (operation != RestOperation.query && operation != RestOperation.insert)
+				path += this.key(record);
+
+			return(path);
+		}
+
+		return(path.replace(/\{([^}]+)\}/g,(_match,column:string) =>
+		{
+			let value:any = record?.getValue(column.toLowerCase());
+			return(encodeURIComponent(value == null ? "" : RestTable.format(value)));
+		}));
+	}
+
+	/** The default path of a record relative to the resource */
+	protected key(record:Record) : string
+	{
+		let key:string = "";
+
+		this.primary$.forEach((col) =>
+		{
+			let value:any = record?.getValue(col);
+			key += "/"+encodeURIComponent(value == null ? "" : RestTable.format(value));
+		})
+
+		return(key);
+	}
+
+	private payload(operation:RestOperation, record:Record) : any
+	{
+		if (operation == RestOperation.delete)
+			return(null);
+
+		let payload:any = {};
+		let patch:boolean = this.endpoints$.get(operation).method == "PATCH";
+
+		this.columns$.forEach((column) =>
+		{
+			let value:any = record.getValue(column);
+
+			// Only send changes when patching
+			if (patch && value == record.getInitialValue(column))
+				return;
+
+			RestTable.assign(payload,this.field(column),value);
+		})
+
+		return(payload);
+	}
+
+	protected merge(record:Record, row:any) : void
+	{
+		if (row == null || typeof row !== "object")
+			return;
+
+		let datetypes:DataType[] = [DataType.date, DataType.datetime, DataType.timestamp];
+
+		this.columns$.forEach((column) =>
+		{
+			let value:any = RestTable.extract(row,this.field(column));
+
+			if (value === undefined)
+				return;
+
+			if (value != null && datetypes.includes(this.datatypes$.get(column)))
+			{
+				if (typeof value === "number" || typeof value === "string")
+					value = new Date(value);
+			}
+
+			record.setValue(column,value);
+		})
+	}
+
+	protected field(column:string) : string
+	{
+		column = column.toLowerCase();
+		let field:string = this.fields$.get(column);
+		return(field ? field : column);
+	}
+
+	protected failed(response:HTTPResponse) : boolean
+	{
+		if (!response.success || response.body?.aborted)
+			return(true);
+
+		return(response.status != null && response.status >= 400);
+	}
+
+	protected report(operation:RestOperation, response:HTTPResponse) : void
+	{
+		let message:string = response.body?.message;
+
+		if (message == null && response.status != null)
+			message = "HTTP "+response.status;
+
+		// Request failed
+		Messages.severe(MSGGRP.FRAMEWORK,21,RestOperation[operation],this.resource$,message);
+	}
+
+	protected static format(value:any) : string
+	{
+		if (value instanceof Date) return(value.toISOString());
+		return(""+value);
+	}
+
+	protected static extract(object:any, path:string) : any
+	{
+		if (path == null || path.length == 0)
+			return(object);
+
+		let parts:string[] = path.split(".");
+
+		for (let i = 0; i < parts.length; i++)
+		{
+			if (object == null || typeof object !== "object")
+				return(undefined);
+
+			object = object[parts[i]];
+		}
+
+		return(object);
+	}
+
+	private static assign(object:any, path:string, value:any) : void
+	{
+		let parts:string[] = path.split(".");
+
+		for (let i = 0; i < parts.length-1; i++)
+		{
+			if (object[parts[i]] == null) object[parts[i]] = {};
+			object = object[parts[i]];
+		}
+
+		object[parts[parts.length-1]] = value;
+	}
+}
+
+class Endpoint
+{
+	constructor(public method:string, public path?:string) {}
+}
@@ -0,0 +1,211 @@
+/*
+  MIT License
+
+  Copyright © 2023 Alex Høffner
+
+  Permission is hereby granted, free of charge, to any person obtaining a copy of this software
+  and associated documentation files (the “Software”), to deal in the Software without
+  restriction, including without limitation the rights to use, copy, modify, merge, publish,
+  distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the
+  Software is furnished to do so, subject to the following conditions:
+
+  The above copyright notice and this permission notice shall be included in all copies or
+  substantial portions of the Software.
+
+  THE SOFTWARE IS PROVIDED “AS IS”, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING
+  BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+  NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM,
+  DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+  FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+import { Record } from "../Record.js";
+import { MemoryTable } from "./MemoryTable.js";
+import { FilterStructure } from "../FilterStructure.js";
+import { Aggregate } from "../interfaces/Aggregate.js";
+import { StorageAdapter } from "./storage/StorageAdapter.js";
+
+/**
+ * Converts rows stored by the previous version. Each row is an object with a property per column
+ */
+export type Migration = (rows:any[]) => any[]|Promise<any[]>;
+
+/**
+ * Datasource based on data in memory, persisted to a storage adapter.
+ * The data is loaded on first use and saved after each flush.
+ *
+ * The data is stored with a schema version. When loading data stored by
+ * an older version, the migrations up to the current version are applied.
+ */
+export class StorageTable extends MemoryTable
+{
+	private key$:string = null;
+	private version$:number = 1;
+	private loaded$:boolean = false;
+	private adapter$:StorageAdapter = null;
+
+	private migrations$:Map<number,Migration> =
+		new Map<number,Migration>();
+
+	/**
+	 * @param adapter : the storage adapter
+	 * @param key : the key the data is stored under
+	 * @param columns : columns in the table
+	 * @param version : the schema version, default 1
+	 */
+	public constructor(adapter:StorageAdapter, key:string, columns?:string|string[], version?:number)
+	{
+		super(columns);
+
+		this.key$ = key;
+		this.adapter$ = adapter;
+		if (version != null) this.version$ = version;
+	}
+
+	/** The storage adapter */
+	public get adapter() : StorageAdapter
+	{
+		return(this.adapter$);
+	}
+
+	/** The key the data is stored under */
+	public get key() : string
+	{
+		return(this.key$);
+	}
+
+	/** The schema version */
+	public get version() : number
+	{
+		return(this.version$);
+	}
+
+	/** The schema version */
+	public set version(version:number)
+	{
+		this.version$ = version;
+	}
+
+	/** Add the migration from the previous version to version */
+	public addMigration(version:number, migration:Migration) : StorageTable
+	{
+		this.migrations$.set(version,migration);
+		return(this);
+	}
+
+	/** Clones the datasource, the clone uses the same storage */
+	public clone(columns?:string|string[]) : StorageTable
+	{
+		if (columns == null)
+			columns = [...this.columns];
+
+		let clone:StorageTable = new StorageTable(this.adapter$,this.key$,columns,this.version$);
+
+		clone.sorting = this.sorting;
+		clone.arrayfecth = this.arrayfecth;
+		clone.migrations$ = this.migrations$;
+
+		return(clone);
+	}
+
+	/** Read the data from the storage, discarding data not flushed */
+	public async reload() : Promise<boolean>
+	{
+		let stored:StoredData = await this.adapter$.get(this.key$);
+
+		if (stored == null)
+			stored = {version: this.version$, rows: []};
+
+		if (stored.version < this.version$)
+		{
+			for (let v = stored.version + 1; v <= this.version$; v++)
+			{
+				let migration:Migration = this.migrations$.get(v);
+				if (migration) stored.rows = await migration(stored.rows);
+			}
+
+			stored.version = this.version$;
+			await this.adapter$.set(this.key$,stored);
+		}
+
+		let data:any[][] = [];
+
+		stored.rows.forEach((row) =>
+			data.push(this.columns.map((col) => row[col] === undefined ? null : row[col])));
+
+		this.setData(data);
+		this.loaded$ = true;
+
+		return(true);
+	}
+
+	/** Remove the data from the storage */
+	public async erase() : Promise<void>
+	{
+		await this.adapter$.remove(this.key$);
+
+		this.setData([]);
+		this.loaded$ = true;
+	}
+
+	/** Flush changes to the storage */
+	public async flush() : Promise<Record[]>
+	{
+		await this.load();
+		let processed:Record[] = await super.flush();
+
+		if (processed.length > 0)
+			await this.save();
+
+		return(processed);
+	}
+
+	/** Execute the query */
+	public async query(filter?:FilterStructure) : Promise<boolean>
+	{
+		await this.load();
+		return(super.query(filter));
+	}
+
+	/** Count the records matching the filter */
+	public async count(filter?:FilterStructure) : Promise<number>
+	{
+		await this.load();
+		return(super.count(filter));
+	}
+
+	/** Compute aggregates on the records matching the filter */
+	public async aggregate(aggregates:Aggregate[], filter?:FilterStructure) : Promise<any[]>
+	{
+		await this.load();
+		return(super.aggregate(aggregates,filter));
+	}
+
+	private async load() : Promise<void>
+	{
+		if (!this.loaded$)
+			await this.reload();
+	}
+
+	private async save() : Promise<void>
+	{
+		let rows:any[] = [];
+		let columns:string[] = this.columns;
+
+		this.getData().forEach((data) =>
+		{
+			let row:any = {};
+			columns.forEach((col,c) => row[col] = data[c]);
+			rows.push(row);
+		})
+
+		let stored:StoredData = {version: this.version$, rows: rows};
+		await this.adapter$.set(this.key$,stored);
+	}
+}
+
+interface StoredData
+{
+	version:number;
+	rows:any[];
+}
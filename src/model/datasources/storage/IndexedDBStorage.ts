@@ -0,0 +1,154 @@
+/*
+  MIT License
+
+  Copyright © 2023 Alex Høffner
+
+  Permission is hereby granted, free of charge, to any person obtaining a copy of this software
+  and associated documentation files (the “Software”), to deal in the Software without
+  restriction, including without limitation the rights to use, copy, modify, merge, publish,
+  distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the
+  Software is furnished to do so, subject to the following conditions:
+
+  The above copyright notice and this permission notice shall be included in all copies or
+  substantial portions of the Software.
+
+  THE SOFTWARE IS PROVIDED “AS IS”, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING
+  BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+  NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM,
+  DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+  FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+import { StorageAdapter } from "./StorageAdapter.js";
+
+/**
+ * Storage adapter based on IndexedDB. Suited for larger amounts of data.
+ * All values are kept in one object store.
+ */
+export class IndexedDBStorage implements StorageAdapter
+{
+	private store$:string = null;
+	private database$:string = null;
+	private connection$:Promise<IDBDatabase> = null;
+
+	/**
+	 * @param database : the name of the database, default futureforms
+	 * @param store : the name of the object store, default storage
+	 */
+	public constructor(database?:string, store?:string)
+	{
+		if (store == null) store = "storage";
+		if (database == null) database = "futureforms";
+
+		this.store$ = store;
+		this.database$ = database;
+	}
+
+	/** Get the value stored under key */
+	public async get(key:string) : Promise<any>
+	{
+		let value:any = await this.execute("readonly",(store) => store.get(key));
+		return(value === undefined ? null : value);
+	}
+
+	/** Store the value under key */
+	public async set(key:string, value:any) : Promise<void>
+	{
+		await this.execute("readwrite",(store) => store.put(value,key));
+	}
+
+	/** Remove the value stored under key */
+	public async remove(key:string) : Promise<void>
+	{
+		await this.execute("readwrite",(store) => store.delete(key));
+	}
+
+	/** All keys in the storage */
+	public async keys() : Promise<string[]>
+	{
+		let keys:IDBValidKey[] = await this.execute("readonly",(store) => store.getAllKeys());
+		return(keys.map((key) => ""+key));
+	}
+
+	private async execute(mode:IDBTransactionMode, operation:(store:IDBObjectStore) => IDBRequest) : Promise<any>
+	{
+		let db:IDBDatabase = await this.open();
+
+		return(new Promise((resolve,reject) =>
+		{
+			let trx:IDBTransaction = db.transaction(this.store$,mode);
+			let request:IDBRequest = operation(trx.objectStore(this.store$));
+
+			trx.oncomplete = () => resolve(request.result);
+			trx.onerror = () => reject(trx.error);
+			trx.onabort = () => reject(trx.error);
+		}));
+	}
+
+	private open() : Promise<IDBDatabase>
+	{
+		if (this.connection$ == null)
+		{
+			// Retry on next use if the open fails
+			this.connection$ = this.connect().catch((error) =>
+			{
+				this.connection$ = null;
+				throw error;
+			});
+		}
+
+		return(this.connection$);
+	}
+
+	private connect(version?:number) : Promise<IDBDatabase>
+	{
+		return(new Promise((resolve,reject) =>
+		{
+			let blocked:boolean = false;
+			let request:IDBOpenDBRequest = window.indexedDB.open(this.database$,version);
+
+			request.onupgradeneeded = () =>
+			{
+				if (!request.result.objectStoreNames.contains(this.store$))
+					request.result.createObjectStore(this.store$);
+			}
+
+			request.onsuccess = () =>
+			{
+				let db:IDBDatabase = request.result;
+
+				if (blocked)
+				{
+					db.close();
+					return;
+				}
+
+				// Let other connections upgrade the database
+				db.onversionchange = () =>
+				{
+					db.close();
+					this.connection$ = null;
+				}
+
+				if (db.objectStoreNames.contains(this.store$))
+				{
+					resolve(db);
+					return;
+				}
+
+				// The database exists without the store, upgrade to create it
+				db.close();
+				this.connect(db.version+1).then(resolve,reject);
+			}
+
+			request.onblocked = () =>
+			{
+				// Another connection to the database did not close on upgrade
+				blocked = true;
+				reject("@IndexedDBStorage: Database '"+this.database$+"' is in use by another connection");
+			}
+
+			request.onerror = () => reject(request.error);
+		}));
+	}
+}
@@ -0,0 +1,96 @@
+/*
+  MIT License
+
+  Copyright © 2023 Alex Høffner
+
+  Permission is hereby granted, free of charge, to any person obtaining a copy of this software
+  and associated documentation files (the “Software”), to deal in the Software without
+  restriction, including without limitation the rights to use, copy, modify, merge, publish,
+  distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the
+  Software is furnished to do so, subject to the following conditions:
+
+  The above copyright notice and this permission notice shall be included in all copies or
+  substantial portions of the Software.
+
+  THE SOFTWARE IS PROVIDED “AS IS”, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING
+  BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+  NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM,
+  DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+  FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+import { StorageAdapter } from "./StorageAdapter.js";
+
+/**
+ * Storage adapter based on the Web Storage API (localStorage by default).
+ * Values are stored as JSON. Dates are preserved.
+ */
+export class LocalStorage implements StorageAdapter
+{
+	private prefix$:string = null;
+	private storage$:Storage = null;
+
+	/**
+	 * @param prefix : prepended to the keys, to separate from other users of the storage
+	 * @param storage : the storage, e.g. sessionStorage. Default is localStorage
+	 */
+	public constructor(prefix?:string, storage?:Storage)
+	{
+		if (prefix == null) prefix = "futureforms:";
+		if (storage == null) storage = window.localStorage;
+
+		this.prefix$ = prefix;
+		this.storage$ = storage;
+	}
+
+	/** Get the value stored under key */
+	public async get(key:string) : Promise<any>
+	{
+		let json:string = this.storage$.getItem(this.prefix$+key);
+		if (json == null) return(null);
+
+		return(JSON.parse(json,(_key,value) =>
+		{
+			if (value != null && typeof value === "object" && value.$date != null && Object.keys(value).length == 1)
+				return(new Date(value.$date));
+
+			return(value);
+		}));
+	}
+
+	/** Store the value under key */
+	public async set(key:string, value:any) : Promise<void>
+	{
+		// toJSON is applied to dates before the replacer, so look at the holder
+		let json:string = JSON.stringify(value,function(this:any, name:string, val:any)
+		{
+			let org:any = this[name];
+			if (org instanceof Date) return({$date: org.getTime()});
+			return(val);
+		});
+
+		this.storage$.setItem(this.prefix$+key,json);
+	}
+
+	/** Remove the value stored under key */
+	public async remove(key:string) : Promise<void>
+	{
+		this.storage$.removeItem(this.prefix$+key);
+	}
+
+	/** All keys in the storage having the prefix */
+	public async keys() : Promise<string[]>
+	{
+		let keys:string[] = [];
+
+		for (let i = 0; i < this.storage$.length; i++)
+		{
+			let key:string = this.storage$.key(i);
+
+			if (key?.startsWith(this.prefix$))
+				keys.push(key.substring(this.prefix$.length));
+		}
+
+		return(keys);
+	}
+}
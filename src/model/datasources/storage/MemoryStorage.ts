@@ -0,0 +1,57 @@
+/*
+  MIT License
+
+  Copyright © 2023 Alex Høffner
+
+  Permission is hereby granted, free of charge, to any person obtaining a copy of this software
+  and associated documentation files (the “Software”), to deal in the Software without
+  restriction, including without limitation the rights to use, copy, modify, merge, publish,
+  distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the
+  Software is furnished to do so, subject to the following conditions:
+
+  The above copyright notice and this permission notice shall be included in all copies or
+  substantial portions of the Software.
+
+  THE SOFTWARE IS PROVIDED “AS IS”, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING
+  BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+  NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM,
+  DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+  FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+import { StorageAdapter } from "./StorageAdapter.js";
+
+/**
+ * Storage adapter keeping the values in memory, e.g. for testing.
+ * Values are copied, so changes to stored objects are not seen until set again.
+ */
+export class MemoryStorage implements StorageAdapter
+{
+	private values$:Map<string,any> =
+		new Map<string,any>();
+
+	/** Get the value stored under key */
+	public async get(key:string) : Promise<any>
+	{
+		let value:any = this.values$.get(key);
+		return(value === undefined ? null : structuredClone(value));
+	}
+
+	/** Store the value under key */
+	public async set(key:string, value:any) : Promise<void>
+	{
+		this.values$.set(key,structuredClone(value));
+	}
+
+	/** Remove the value stored under key */
+	public async remove(key:string) : Promise<void>
+	{
+		this.values$.delete(key);
+	}
+
+	/** All keys in the storage */
+	public async keys() : Promise<string[]>
+	{
+		return([...this.values$.keys()]);
+	}
+}
@@ -20,6 +20,7 @@
 */
 
 import { Filter } from './Filter.js';
+import { Aggregate } from './Aggregate.js';
 import { Record } from '../Record.js';
 import { FilterStructure } from '../FilterStructure.js';
 
@@ -54,6 +55,8 @@ export interface DataSource
 	clone() : DataSource;
 	undo() : Promise<Record[]>;
 	fetch() : Promise<Record[]>;
+	prefetch?() : void;
+	cancelCount?() : void;
 	flush() : Promise<Record[]>;
 	closeCursor() : Promise<boolean>;
 	lock(record:Record) : Promise<boolean>;
@@ -62,6 +65,8 @@ export interface DataSource
 	delete(record:Record) : Promise<boolean>;
 	refresh(record:Record) : Promise<boolean>;
 	query(filters?:FilterStructure) : Promise<boolean>;
+	count?(filters?:FilterStructure) : Promise<number>;
+	aggregate?(aggregates:Aggregate[], filters?:FilterStructure) : Promise<any[]>;
 
 	getFilters() : FilterStructure;
 	addColumns(columns:string|string[]) : DataSource;
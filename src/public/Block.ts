@@ -33,13 +33,16 @@ import { TriggerFunction } from './TriggerFunction.js';
 import { Block as ModelBlock } from '../model/Block.js';
 import { EventType } from '../control/events/EventType.js';
 import { FormBacking } from '../application/FormBacking.js';
+import { Exporter } from '../application/export/Exporter.js';
 import { FormEvents } from '../control/events/FormEvents.js';
 import { FilterStructure } from '../model/FilterStructure.js';
 import { FlushStrategy, FormsModule } from '../application/FormsModule.js';
 import { DataSource } from '../model/interfaces/DataSource.js';
+import { Aggregate } from '../model/interfaces/Aggregate.js';
 import { EventFilter } from '../control/events/EventFilter.js';
 import { FieldInstance } from '../view/fields/FieldInstance.js';
 import { FieldFeatureFactory } from '../view/FieldFeatureFactory.js';
+import { ExportOptions } from '../application/export/ExportOptions.js';
 import { Record as ModelRecord, RecordState } from '../model/Record.js';
 
 /**
@@ -191,6 +194,31 @@ export class Block
 		return(FormBacking.getModelBlock(this).record);
 	}
 
+	/** Number of records returned by the last query. The records are counted on first request *
+   *
+	* @returns A promise resolving to the number of records, or null if it cannot be determined.
+   */
+	public async getQueryHits() : Promise<number>
+	{
+		return(FormBacking.getModelBlock(this).getQueryHits());
+	}
+
+	/** Cancel counting the records returned by the last query */
+	public cancelQueryHits() : void
+	{
+		FormBacking.getModelBlock(this).cancelQueryHits();
+	}
+
+	/** Compute aggregates, like sum or max, on the records returned by the last query *
+   *
+	* @param aggregates: the functions and columns
+	* @returns A promise resolving to the values in the same order, or null if it cannot be determined.
+   */
+	public async aggregate(aggregates:Aggregate[]) : Promise<any[]>
+	{
+		return(FormBacking.getModelBlock(this).aggregate(aggregates));
+	}
+
 	/** The state of the current record   *
    *
    * @returns The state of the current record.
@@ -454,24 +482,45 @@ export class Block
 	*/
 	public async getSourceData(header?:boolean, all?:boolean) : Promise<any[][]>
 	{
-		return(FormBacking.getModelBlock(this).copy(all,header));
+		return(FormBacking.getModelBlock(this).copy(header,all));
 	}
 
-	/** As getSourceData but copies the data to the clipboard. Requires https */
+	/** As getSourceData but copies the data to the clipboard as csv. Requires https */
 	public async saveDataToClipBoard(header?:boolean, all?:boolean) : Promise<void>
 	{
-		let str:string = "";
-		let data:string[][] = await this.getSourceData(header,all);
+		let data:any[][] = await this.getSourceData(true,all);
+		let columns:string[] = data.shift() ?? [];
 
-		data.forEach((rec) =>
-		{
-			let row:string = "";
-			rec.forEach((col) => {row += ", "+col})
-			str += row.substring(2)+"\n";
-		})
+		await navigator.clipboard.writeText(Exporter.csv(columns,data,header));
+	}
+
+	/** Export the data in the block as csv, json or SpreadsheetML
+	*
+	* @param options - format, columns, rows and whether to write the values as displayed
+	* @returns The exported data
+	*/
+	public async exportData(options?:ExportOptions) : Promise<string>
+	{
+		return(new Exporter(FormBacking.getModelBlock(this),options).write());
+	}
+
+	/** As exportData but returns a Blob, e.g. for download
+	*
+	* @param options - format, columns, rows and whether to write the values as displayed
+	* @returns The exported data as a Blob
+	*/
+	public async exportToBlob(options?:ExportOptions) : Promise<Blob>
+	{
+		return(new Exporter(FormBacking.getModelBlock(this),options).toBlob());
+	}
 
-		str = str.substring(0,str.length-1);
-		navigator.clipboard.writeText(str);
+	/** As exportData but copies the data to the clipboard. Requires https
+	*
+	* @param options - format, columns, rows and whether to write the values as displayed
+	*/
+	public async exportToClipBoard(options?:ExportOptions) : Promise<void>
+	{
+		await new Exporter(FormBacking.getModelBlock(this),options).toClipBoard();
 	}
 
 	/** Gets the datasource associated with the model block.
@@ -0,0 +1,111 @@
+/*
+  MIT License
+
+  Copyright © 2023 Alex Høffner
+
+  Permission is hereby granted, free of charge, to any person obtaining a copy of this software
+  and associated documentation files (the “Software”), to deal in the Software without
+  restriction, including without limitation the rights to use, copy, modify, merge, publish,
+  distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the
+  Software is furnished to do so, subject to the following conditions:
+
+  The above copyright notice and this permission notice shall be included in all copies or
+  substantial portions of the Software.
+
+  THE SOFTWARE IS PROVIDED “AS IS”, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING
+  BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+  NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM,
+  DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+  FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+import { DatabaseConnection } from "./DatabaseConnection.js";
+
+/**
+ * The outcome of a coordinated commit for a single connection
+ */
+export enum CommitOutcome
+{
+	Committed,
+	RolledBack,
+	Failed
+}
+
+/**
+ * The result of a coordinated commit across connections.
+ * Connections that failed could neither be committed nor rolled back,
+ * and their state on the backend is unknown.
+ */
+export class CommitResult
+{
+	private twophase$:boolean = false;
+
+	private outcomes$:Map<DatabaseConnection,CommitOutcome> =
+		new Map<DatabaseConnection,CommitOutcome>();
+
+	constructor(twophase:boolean)
+	{
+		this.twophase$ = twophase;
+	}
+
+	/** Whether the commit was done using prepare/commit */
+	public get twophase() : boolean
+	{
+		return(this.twophase$);
+	}
+
+	/** All connections committed */
+	public get success() : boolean
+	{
+		return(this.rolledback.length == 0 && this.failed.length == 0);
+	}
+
+	/** Some, but not all, connections committed */
+	public get partial() : boolean
+	{
+		return(!this.success && this.committed.length > 0);
+	}
+
+	/** The connections that committed */
+	public get committed() : DatabaseConnection[]
+	{
+		return(this.getConnections(CommitOutcome.Committed));
+	}
+
+	/** The connections that rolled back */
+	public get rolledback() : DatabaseConnection[]
+	{
+		return(this.getConnections(CommitOutcome.RolledBack));
+	}
+
+	/** The connections that could neither commit nor roll back */
+	public get failed() : DatabaseConnection[]
+	{
+		return(this.getConnections(CommitOutcome.Failed));
+	}
+
+	/** The outcome for a given connection */
+	public getOutcome(connection:DatabaseConnection) : CommitOutcome
+	{
+		return(this.outcomes$.get(connection));
+	}
+
+	/** Record the outcome for a given connection */
+	public setOutcome(connection:DatabaseConnection, outcome:CommitOutcome) : void
+	{
+		this.outcomes$.set(connection,outcome);
+	}
+
+	private getConnections(outcome:CommitOutcome) : DatabaseConnection[]
+	{
+		let conns:DatabaseConnection[] = [];
+
+		this.outcomes$.forEach((value,conn) =>
+		{
+			if (value == outcome)
+				conns.push(conn);
+		})
+
+		return(conns);
+	}
+}
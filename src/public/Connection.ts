@@ -19,6 +19,8 @@
   FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
 */
 
+import { Transport } from "./Transport.js";
+import { HTTPRequest, Interceptor } from "./Interceptor.js";
 import { FlightRecorder } from "../application/FlightRecorder.js";
 
 /**
@@ -29,9 +31,12 @@ export class Connection
 {
 	private base$:URL = null;
 	private headers$:any = {};
-	private method$:string = null;
+	private status$:number = null;
 	private authmeth$:string = null;
+	private transport$:Transport = null;
 	private success$:boolean = true;
+	private interceptors$:Interceptor[] = [];
+	private controllers$:Set<AbortController> = new Set<AbortController>();
 
 	/**
 	* Create connection. If no url specified, the Origin of the page is used 
@@ -95,6 +100,15 @@ export class Connection
 		return(this.success$);
 	}
 
+	/** The HTTP status of the last request, null if no response was received
+	*
+	*  @returns The HTTP status.
+	*/
+	public get status() : number
+	{
+		return(this.status$);
+	}
+
 	/** Get the request headers 
 	* 
 	* 
@@ -138,17 +152,77 @@ export class Connection
 		return(false);
 	}
 
+	/** The transport used instead of fetch, null when using HTTP
+	*
+	* @returns The transport.
+	*/
+	public get transport() : Transport
+	{
+		return(this.transport$);
+	}
+
+	/** Use a transport instead of fetch, e.g. a local backend for testing
+	*
+	* @param transport - The transport, null to use HTTP.
+	*/
+	public set transport(transport:Transport)
+	{
+		this.transport$ = transport;
+	}
+
+	/** Add an interceptor to the request pipeline
+	*
+	* @param interceptor - The interceptor to add.
+	*/
+	public addInterceptor(interceptor:Interceptor) : void
+	{
+		this.interceptors$.push(interceptor);
+	}
+
+	/** Remove an interceptor from the request pipeline
+	*
+	* @param interceptor - The interceptor to remove.
+	*/
+	public removeInterceptor(interceptor:Interceptor) : void
+	{
+		let pos:number = this.interceptors$.indexOf(interceptor);
+		if (pos >= 0) this.interceptors$.splice(pos,1);
+	}
+
+	/** Get the interceptors in the order they are applied
+	*
+	* @returns The interceptors.
+	*/
+	public getInterceptors() : Interceptor[]
+	{
+		return([...this.interceptors$]);
+	}
+
+	/** Abort all running requests on this connection
+	*
+	* @returns Whether any requests were aborted.
+	*/
+	public abort() : boolean
+	{
+		let running:boolean = this.controllers$.size > 0;
+
+		this.controllers$.forEach((controller) => controller.abort());
+		this.controllers$.clear();
+
+		return(running);
+	}
+
 	/** Perform HTTP GET 
 	* 
 	* 
 	* @param url - The URL for the GET request. Optional.
    * @param raw - Indicates whether to return the raw response. Optional.
+   * @param signal - Signal to abort the request. Optional.
    * @returns A promise that resolves to the response of the GET request. 
 	*/
-	public async get(url?:string|URL, raw?:boolean) : Promise<any>
+	public async get(url?:string|URL, raw?:boolean, signal?:AbortSignal) : Promise<any>
 	{
-		this.method$ = "GET";
-		return(this.invoke(url,null,raw));
+		return((await this.request("GET",url,null,raw,signal)).body);
 	}
 
 	/** Perform HTTP POST 
@@ -156,12 +230,12 @@ export class Connection
 	* @param url - The URL for the POST request. Optional.
    * @param payload - The payload for the POST request. Optional.
    * @param raw - Indicates whether to return the raw response. Optional.
+   * @param signal - Signal to abort the request. Optional.
    * @returns A promise that resolves to the response of the POST request. 
 	*/
-	public async post(url?:string|URL, payload?:string|any, raw?:boolean) : Promise<any>
+	public async post(url?:string|URL, payload?:string|any, raw?:boolean, signal?:AbortSignal) : Promise<any>
 	{
-		this.method$ = "POST";
-		return(this.invoke(url,payload,raw));
+		return((await this.request("POST",url,payload,raw,signal)).body);
 	}
 
 	/** Perform HTTP PATCH 
@@ -169,27 +243,54 @@ export class Connection
 	* @param url - The URL for the PATCH request. Optional.
    * @param payload - The payload for the PATCH request. Optional.
    * @param raw - Indicates whether to return the raw response. Optional.
+   * @param signal - Signal to abort the request. Optional.
    * @returns A promise that resolves to the response of the PATCH request.
 	*/
-	public async patch(url?:string|URL, payload?:string|any, raw?:boolean) : Promise<any>
+	public async patch(url?:string|URL, payload?:string|any, raw?:boolean, signal?:AbortSignal) : Promise<any>
 	{
-		this.method$ = "PATCH";
-		return(this.invoke(url,payload,raw));
+		return((await this.request("PATCH",url,payload,raw,signal)).body);
 	}
 
-	/**
-   * Invokes an HTTP request.
-   *
-   * @param url - The URL for the request.
-   * @param payload - The payload for the request.
-   * @param raw - Indicates whether to return the raw response.
-   * @returns A promise that resolves to the response of the HTTP request.
-   * @private
-   */
-	private async invoke(url:string|URL, payload:string|any, raw:boolean) : Promise<any>
+	/** Perform HTTP PUT
+	*
+	* @param url - The URL for the PUT request. Optional.
+   * @param payload - The payload for the PUT request. Optional.
+   * @param raw - Indicates whether to return the raw response. Optional.
+   * @param signal - Signal to abort the request. Optional.
+   * @returns A promise that resolves to the response of the PUT request.
+	*/
+	public async put(url?:string|URL, payload?:string|any, raw?:boolean, signal?:AbortSignal) : Promise<any>
+	{
+		return((await this.request("PUT",url,payload,raw,signal)).body);
+	}
+
+	/** Perform HTTP DELETE. Named remove, since delete is used for SQL by the database connection
+	*
+	* @param url - The URL for the DELETE request. Optional.
+   * @param raw - Indicates whether to return the raw response. Optional.
+   * @param signal - Signal to abort the request. Optional.
+   * @returns A promise that resolves to the response of the DELETE request.
+	*/
+	public async remove(url?:string|URL, raw?:boolean, signal?:AbortSignal) : Promise<any>
+	{
+		return((await this.request("DELETE",url,null,raw,signal)).body);
+	}
+
+	/** Perform a HTTP request. Since requests can run concurrently, the outcome
+	* is returned with the response, instead of read from success and status
+	*
+	* @param method - The HTTP method.
+	* @param url - The URL for the request. Optional.
+   * @param payload - The payload for the request. Optional.
+   * @param raw - Indicates whether to return the raw response. Optional.
+   * @param signal - Signal to abort the request. Optional.
+   * @returns A promise that resolves to the response and outcome of the request.
+	*/
+	public async request(method:string, url?:string|URL, payload?:string|any, raw?:boolean, signal?:AbortSignal) : Promise<HTTPResponse>
 	{
 		let body:any = null;
-		this.success$ = true;
+		let failure:any = null;
+		let response:HTTPResponse = new HTTPResponse();
 
 		let endpoint:URL = new URL(this.base$);
 		if (url) endpoint = new URL(url,endpoint);
@@ -200,33 +301,181 @@ export class Connection
 				payload = JSON.stringify(payload);
 		}
 
-		if (!endpoint.toString().endsWith("ping"))
-			FlightRecorder.add("@connection: "+endpoint+(payload ? " "+JSON.stringify(payload) : ""))
+		let controller:AbortController = new AbortController();
+		let forward:() => void = () => controller.abort();
 
-		let http:any = await fetch(endpoint,
+		if (signal)
 		{
-			method 	: this.method$,
-			headers 	: this.headers$,
-			body 		: payload
-		}).
-		catch((errmsg) =>
+			if (signal.aborted) controller.abort();
+			else signal.addEventListener("abort",forward);
+		}
+
+		// Released when done, also if an interceptor fails
+		this.controllers$.add(controller);
+
+		try
 		{
-			if (raw) body = errmsg;
+			let request:HTTPRequest = new HTTPRequest();
+
+			request.raw = raw;
+			request.url = endpoint;
+			request.connection = this;
+			request.payload = payload;
+			request.method = method;
+			request.headers = {...this.headers$};
+			request.signal = controller.signal;
+
+			for (let i = 0; i < this.interceptors$.length; i++)
+			{
+				if (this.interceptors$[i].beforeRequest)
+					await this.interceptors$[i].beforeRequest(request);
+			}
+
+			if (!request.url.toString().endsWith("ping"))
+				FlightRecorder.add("@connection: "+request.url+(request.payload ? " "+JSON.stringify(request.payload) : ""))
+
+			if (this.transport$ != null)
+			{
+				body = await this.transport$.send(request).
+				catch((errmsg) =>
+				{
+					failure = errmsg;
+					response.success = false;
+				});
+
+				if (response.success)
+				{
+					response.status = 200;
+					request.status = 200;
+
+					// No response text, count the body as it would have been sent
+					if (body != null) response.size = (typeof body === "string" ? body : JSON.stringify(body)).length;
+				}
+			}
+			else
+			{
+				let http:any = await fetch(request.url,
+				{
+					method 	: request.method,
+					headers 	: request.headers,
+					body 		: request.payload,
+					signal	: controller.signal
+				}).
+				catch((errmsg) =>
+				{
+					failure = errmsg;
+					response.success = false;
+				});
+
+				if (response.success)
+				{
+					response.status = http.status;
+					request.status = http.status;
+
+					response.headers = new Map<string,string>();
+					http.headers.forEach((value:string,name:string) => response.headers.set(name.toLowerCase(),value));
+
+					let text:string = null;
+					if (http.status != 204) text = await http.text().catch((errmsg:any) => {failure = errmsg});
+
+					if (text != null)
+					{
+						response.size = text.length;
+
+						// An empty body, like on 201 or 204, is a success without content
+						if (raw) body = text;
+						else if (text.trim().length > 0)
+						{
+							try {body = JSON.parse(text);}
+							catch (error) {failure = error;}
+						}
+					}
+
+					if (failure != null)
+						response.success = false;
+				}
+			}
+
+			if (controller.signal.aborted)
+			{
+				response.success = false;
+
+				if (raw) response.body = failure;
+				else response.body = {success: false, aborted: true, message: "Request aborted"};
+
+				return(this.finished(response));
+			}
+
+			if (response.success)
+			{
+				for (let i = this.interceptors$.length-1; i >= 0; i--)
+				{
+					if (this.interceptors$[i].afterResponse)
+						body = await this.interceptors$[i].afterResponse(request,body);
+				}
+
+				response.body = body;
+				return(this.finished(response));
+			}
+
+			for (let i = this.interceptors$.length-1; i >= 0; i--)
+			{
+				if (this.interceptors$[i].onError)
+				{
+					let recovered:any = await this.interceptors$[i].onError(request,failure);
+
+					if (recovered != null)
+					{
+						response.success = true;
+						response.body = recovered;
+						return(this.finished(response));
+					}
+				}
+			}
+
+			if (raw) body = failure;
 			else body =
 			{
 				success: false,
-				message: errmsg
+				message: failure
 			};
 
-			this.success$ = false;
-		});
-
-		if (this.success$)
+			response.body = body;
+			return(this.finished(response));
+		}
+		finally
 		{
-			if (raw) body = await http.text();
-			else		body = await http.json();
+			this.controllers$.delete(controller);
+			signal?.removeEventListener("abort",forward);
 		}
+	}
 
-		return(body);
+	// Success and status reflect the last request to finish
+	private finished(response:HTTPResponse) : HTTPResponse
+	{
+		this.status$ = response.status;
+		this.success$ = response.success;
+		return(response);
 	}
-}
\ No newline at end of file
+}
+
+/**
+ * The outcome of a single request
+ */
+export class HTTPResponse
+{
+	/** The response, or the error if the request failed */
+	public body:any = null;
+
+	/** The HTTP status, null if no response was received */
+	public status:number = null;
+
+	/** Whether the request succeeded */
+	public success:boolean = true;
+
+	/** The length of the response text, null if not known */
+	public size:number = null;
+
+	/** The response headers by lower case name, null if not known */
+	public headers:Map<string,string> = null;
+}
@@ -0,0 +1,93 @@
+/*
+  MIT License
+
+  Copyright © 2023 Alex Høffner
+
+  Permission is hereby granted, free of charge, to any person obtaining a copy of this software
+  and associated documentation files (the “Software”), to deal in the Software without
+  restriction, including without limitation the rights to use, copy, modify, merge, publish,
+  distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the
+  Software is furnished to do so, subject to the following conditions:
+
+  The above copyright notice and this permission notice shall be included in all copies or
+  substantial portions of the Software.
+
+  THE SOFTWARE IS PROVIDED “AS IS”, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING
+  BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+  NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM,
+  DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+  FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+import { DatabaseConnection } from "./DatabaseConnection.js";
+
+/**
+ * Latency in milliseconds
+ */
+export interface Latency
+{
+	min:number;
+	max:number;
+	avg:number;
+	p50:number;
+	p90:number;
+	p99:number;
+}
+
+/**
+ * Metrics for requests to a single backend path, i.e. select, fetch, insert ...
+ * Percentiles are based on the most recent requests.
+ */
+export class RequestStatistics
+{
+	public path:string = null;
+	public rows:number = 0;
+	public errors:number = 0;
+	public requests:number = 0;
+	public bytesin:number = 0;
+	public bytesout:number = 0;
+	public latency:Latency = null;
+}
+
+/**
+ * Snapshot of the metrics collected on a DatabaseConnection
+ * since it was created or since the statistics was reset.
+ * Bytes are measured on the JSON representation of requests and responses.
+ */
+export class ConnectionStatistics
+{
+	public started:Date = null;
+	public collected:Date = null;
+
+	public rows:number = 0;
+	public errors:number = 0;
+	public requests:number = 0;
+	public bytesin:number = 0;
+	public bytesout:number = 0;
+
+	/** Rows locked since started */
+	public locks:number = 0;
+
+	/** Rows currently locked */
+	public held:number = 0;
+
+	public latency:Latency = null;
+	public paths:RequestStatistics[] = [];
+
+	/** Get the metrics for a given path */
+	public getPath(path:string) : RequestStatistics
+	{
+		return(this.paths.find((stats) => stats.path == path?.toLowerCase()));
+	}
+}
+
+/**
+ * Application provided receiver of connection metrics.
+ * Statistics is published after a request, when at least
+ * interval seconds (default 60) has passed since last time, and on disconnect.
+ */
+export interface StatisticsSink
+{
+	interval?:number;
+	publish(statistics:ConnectionStatistics, connection:DatabaseConnection) : void;
+}
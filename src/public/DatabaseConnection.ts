@@ -19,9 +19,17 @@
   FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
 */
 
+import { Transport } from "./Transport.js";
+import { Interceptor } from "./Interceptor.js";
 import { SQLRest } from "../database/SQLRest.js";
+import { SQLDialect } from "../database/SQLDialect.js";
+import { TokenProvider } from "./TokenProvider.js";
+import { RetryPolicy } from "../database/RetryPolicy.js";
+import { OfflineQueue } from "../database/OfflineQueue.js";
 import { ConnectionScope } from "../database/ConnectionScope.js";
+import { StorageAdapter } from "../model/datasources/storage/StorageAdapter.js";
 import { Connection as RestConnection, Step } from "../database/Connection.js";
+import { ConnectionStatistics, StatisticsSink } from "./ConnectionStatistics.js";
 
 /**
  * Connection to DatabaseJS.
@@ -122,7 +130,7 @@ export class DatabaseConnection
    */
 	public constructor(url?:string|URL)
 	{
-		this.conn$ = new RestConnection(url);
+		this.conn$ = new RestConnection(url,this);
 	}
 
 	/** Number of row locks
@@ -165,6 +173,46 @@ export class DatabaseConnection
 		this.conn$.scope = scope;
 	}
 
+	/** The SQL dialect of the database
+	*
+   * @public
+   * @returns The SQL dialect.
+   */
+	public get dialect() : SQLDialect
+	{
+		return(this.conn$.dialect);
+	}
+
+	/** The SQL dialect of the database, used when generating upserts
+	*
+   * @public
+   * @param dialect - The SQL dialect.
+   */
+	public set dialect(dialect:SQLDialect)
+	{
+		this.conn$.dialect = dialect;
+	}
+
+	/** Default statement timeout in seconds, null means no timeout
+	*
+   * @public
+   * @returns The statement timeout in seconds.
+   */
+	public get timeout() : number
+	{
+		return(this.conn$.timeout);
+	}
+
+	/** Default statement timeout in seconds, null means no timeout
+	*
+   * @public
+   * @param timeout - The statement timeout in seconds.
+   */
+	public set timeout(timeout:number)
+	{
+		this.conn$.timeout = timeout;
+	}
+
 	/** The authorization method
 	*
    * @public
@@ -195,6 +243,193 @@ export class DatabaseConnection
 		return(this.conn$.transactional);
 	}
 
+	/** Whether to re-establish the session if the backend loses it
+	*
+	* @public
+	* @returns Whether session recovery is enabled.
+	*/
+	public get recover() : boolean
+	{
+		return(this.conn$.recover);
+	}
+
+	/** Whether to re-establish the session if the backend loses it.
+	* Unless a reconnect handler is set, the credentials from the last connect are cached and reused.
+	* Uncommitted transactions cannot be recovered and are rolled back.
+	*
+	* @public
+	* @param flag - Enable or disable session recovery.
+	*/
+	public set recover(flag:boolean)
+	{
+		this.conn$.recover = flag;
+	}
+
+	/** Handler used to reconnect when recovering a lost session
+	*
+	* @public
+	* @returns The reconnect handler.
+	*/
+	public get reconnect() : () => Promise<boolean>
+	{
+		return(this.conn$.reconnect);
+	}
+
+	/** Handler used to reconnect when recovering a lost session.
+	* The handler must call connect and return whether it succeeded.
+	*
+	* @public
+	* @param handler - The reconnect handler.
+	*/
+	public set reconnect(handler:() => Promise<boolean>)
+	{
+		this.conn$.reconnect = handler;
+	}
+
+	/** The provider of access tokens, when using token authentication
+	*
+	* @public
+	* @returns The token provider.
+	*/
+	public get tokenprovider() : TokenProvider
+	{
+		return(this.conn$.tokenprovider);
+	}
+
+	/** The provider of access tokens. The token is sent on connect and as
+	* Authorization header on every request. It is refreshed before it expires,
+	* or when the backend responds 401.
+	*
+	* @public
+	* @param provider - The token provider.
+	*/
+	public set tokenprovider(provider:TokenProvider)
+	{
+		this.conn$.tokenprovider = provider;
+	}
+
+	/** The transport used instead of HTTP, if any
+	*
+	* @public
+	* @returns The transport.
+	*/
+	public get transport() : Transport
+	{
+		return(this.conn$.transport);
+	}
+
+	/** Use a transport instead of HTTP, e.g. a LocalBackend when testing
+	*
+	* @public
+	* @param transport - The transport, null to use HTTP.
+	*/
+	public set transport(transport:Transport)
+	{
+		this.conn$.transport = transport;
+	}
+
+	/** Request metrics collected since the connection was created or reset
+	*
+	* @public
+	* @returns Snapshot of the statistics.
+	*/
+	public getStatistics() : ConnectionStatistics
+	{
+		return(this.conn$.getStatistics());
+	}
+
+	/** Start collecting request metrics from scratch
+	*
+	* @public
+	*/
+	public resetStatistics() : void
+	{
+		this.conn$.resetStatistics();
+	}
+
+	/** The sink that statistics is pushed to, if any
+	*
+	* @public
+	* @returns The statistics sink.
+	*/
+	public get statisticsSink() : StatisticsSink
+	{
+		return(this.conn$.statisticsSink);
+	}
+
+	/** Push statistics to an application provided sink
+	*
+	* @public
+	* @param sink - The sink, null to stop publishing.
+	*/
+	public set statisticsSink(sink:StatisticsSink)
+	{
+		this.conn$.statisticsSink = sink;
+	}
+
+	/** The retry policy for requests that fails to reach the backend
+	*
+	* @public
+	* @returns The retry policy, or null if requests are not retried.
+	*/
+	public get retrypolicy() : RetryPolicy
+	{
+		return(this.conn$.retrypolicy);
+	}
+
+	/** The retry policy for requests that fails to reach the backend.
+	* Only select, fetch and ping are retried, unless the backend acknowledges idempotency keys.
+	*
+	* @public
+	* @param policy - The retry policy, null to disable.
+	*/
+	public set retrypolicy(policy:RetryPolicy)
+	{
+		this.conn$.retrypolicy = policy;
+	}
+
+	/** The storage for changes flushed while disconnected
+	*
+	* @public
+	* @returns The storage adapter, or null if changes cannot be flushed while disconnected.
+	*/
+	public get offlineStorage() : StorageAdapter
+	{
+		return(this.conn$.offline?.adapter);
+	}
+
+	/** Keep changes flushed while disconnected in the storage, and replay them in order on connect.
+	* In a transactional scope the replayed changes are committed.
+	*
+	* @public
+	* @param storage - The storage adapter, null to disable.
+	*/
+	public set offlineStorage(storage:StorageAdapter)
+	{
+		let key:string = "offline:"+this.conn$.baseURL;
+		this.conn$.offline = storage ? new OfflineQueue(storage,key) : null;
+	}
+
+	/** The number of statements waiting to be replayed
+	*
+	* @public
+	* @returns The number of statements.
+	*/
+	public async getOfflineChanges() : Promise<number>
+	{
+		if (this.conn$.offline == null) return(0);
+		return(this.conn$.offline.size());
+	}
+
+	/** Discard the changes waiting to be replayed
+	*
+	* @public
+	*/
+	public async discardOfflineChanges() : Promise<void>
+	{
+		await this.conn$.offline?.clear();
+	}
+
 	/** Add attribute to be passed on to backend
  	*
    * @public
@@ -238,6 +473,26 @@ export class DatabaseConnection
 		this.conn$.deleteClientInfo(name);
 	}
 
+	/** Add an interceptor to the request pipeline
+	*
+	* @public
+	* @param interceptor - The interceptor to add.
+	*/
+	public addInterceptor(interceptor:Interceptor) : void
+	{
+		this.conn$.addInterceptor(interceptor);
+	}
+
+	/** Remove an interceptor from the request pipeline
+	*
+	* @public
+	* @param interceptor - The interceptor to remove.
+	*/
+	public removeInterceptor(interceptor:Interceptor) : void
+	{
+		this.conn$.removeInterceptor(interceptor);
+	}
+
 	/** Connects to the database.
    *
    * @public
@@ -272,6 +527,16 @@ export class DatabaseConnection
 		return(this.conn$.connected());
 	}
 
+	/** Cancel the running query, if any
+	*
+	* @public
+	* @returns Whether a query was cancelled.
+	*/
+	public cancel() : boolean
+	{
+		return(this.conn$.cancel());
+	}
+
 	/** Commit all transactions
 	*
    * @public
@@ -292,6 +557,39 @@ export class DatabaseConnection
 		return(this.conn$.rollback());
 	}
 
+	/** Establish a savepoint in the current transaction
+	*
+   * @public
+   * @param name - The name of the savepoint. Reusing a name moves the savepoint.
+   * @returns A promise that resolves to a boolean indicating the success of the savepoint.
+   */
+	public async savepoint(name:string) : Promise<boolean>
+	{
+		return(this.conn$.savepoint(name));
+	}
+
+	/** Rollback to a savepoint. Records flushed after the savepoint become dirty again
+	*
+   * @public
+   * @param name - The name of the savepoint.
+   * @returns A promise that resolves to a boolean indicating the success of the rollback.
+   */
+	public async rollbackTo(name:string) : Promise<boolean>
+	{
+		return(this.conn$.rollbackTo(name));
+	}
+
+	/** Release a savepoint, and all savepoints established after it
+	*
+   * @public
+   * @param name - The name of the savepoint.
+   * @returns A promise that resolves to a boolean indicating the success of the release.
+   */
+	public async releaseSavepoint(name:string) : Promise<boolean>
+	{
+		return(this.conn$.releaseSavepoint(name));
+	}
+
 	/** Execute insert    *
    * @public
    * @param payload - The SQLRest payload for the insert operation.
@@ -345,6 +643,6 @@ export class DatabaseConnection
    */
 	public async batch(stmts:Step[], attributes?:{name:string, value:object}[]) : Promise<any[]>
 	{
-		return(this.conn$.batch(stmts,attributes));
+		return((await this.conn$.batch(stmts,attributes)) ?? []);
 	}
 }
\ No newline at end of file
@@ -0,0 +1,78 @@
+/*
+  MIT License
+
+  Copyright © 2023 Alex Høffner
+
+  Permission is hereby granted, free of charge, to any person obtaining a copy of this software
+  and associated documentation files (the “Software”), to deal in the Software without
+  restriction, including without limitation the rights to use, copy, modify, merge, publish,
+  distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the
+  Software is furnished to do so, subject to the following conditions:
+
+  The above copyright notice and this permission notice shall be included in all copies or
+  substantial portions of the Software.
+
+  THE SOFTWARE IS PROVIDED “AS IS”, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING
+  BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+  NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM,
+  DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+  FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+import { Connection } from "./Connection.js";
+
+/**
+ * An interceptor can be added to a Connection to inspect or modify
+ * requests before they are sent, and responses after they are received.
+ *
+ * beforeRequest is called in the order the interceptors were added,
+ * afterResponse and onError in the reverse order.
+ */
+export interface Interceptor
+{
+	/** Called before the request is sent. The request can be modified */
+	beforeRequest?(request:HTTPRequest) : Promise<void>;
+
+	/** Called when a response is received. Returns the, possibly rewritten, response */
+	afterResponse?(request:HTTPRequest, response:any) : Promise<any>;
+
+	/** Called when the request failed. Return a response to recover, or null to pass on the error */
+	onError?(request:HTTPRequest, error:any) : Promise<any>;
+}
+
+/**
+ * The request as seen by the interceptors
+ */
+export class HTTPRequest
+{
+	/** The full url */
+	public url:URL = null;
+
+	/** The HTTP method */
+	public method:string = null;
+
+	/** The request headers */
+	public headers:any = {};
+
+	/** The payload (body) */
+	public payload:string = null;
+
+	/** Whether the response is returned as text */
+	public raw:boolean = false;
+
+	/** The HTTP status, when a response has been received */
+	public status:number = null;
+
+	/** The connection executing the request */
+	public connection:Connection = null;
+
+	/** Signals when the request is aborted */
+	public signal:AbortSignal = null;
+
+	/** The path (last part of the url) */
+	public get path() : string
+	{
+		let path:string = this.url.pathname;
+		return(path.substring(path.lastIndexOf("/")+1));
+	}
+}
@@ -32,12 +32,14 @@ import { Record, RecordState } from "../model/Record.js";
 import { Properties } from "../application/Properties.js";
 import { Level, Messages } from "../messages/Messages.js";
 import { FieldInstance } from "./fields/FieldInstance.js";
+import { Summary } from "../application/tags/Summary.js";
 import { EventType } from "../control/events/EventType.js";
 import { FormBacking } from "../application/FormBacking.js";
 import { DateConstraint } from "../public/DateConstraint.js";
 import { BasicProperties } from "./fields/BasicProperties.js";
 import { FieldFeatureFactory } from "./FieldFeatureFactory.js";
 import { FlightRecorder } from "../application/FlightRecorder.js";
+import { RecordCounter } from "../application/tags/RecordCounter.js";
 import { FieldState } from "./fields/interfaces/FieldImplementation.js";
 import { FormEvent, FormEvents } from "../control/events/FormEvents.js";
 import { FilterIndicator } from "../application/tags/FilterIndicator.js";
@@ -50,6 +52,7 @@ export class Block
 	private form$:Form = null;
 	private name$:string = null;
 	private model$:ModelBlock = null;
+	private summarizing$:object = null;
 	private finalized$:boolean = false;
 	private fieldnames$:string[] = null;
 	private curinst$:FieldInstance = null;
@@ -1127,6 +1130,48 @@ export class Block
 		if (prev != null) this.getRow(prev)?.activateIndicators(false);
 	}
 
+	public showRecordCounters() : void
+	{
+		let counters:RecordCounter[] = this.form.getRecordCounters(this.name);
+		if (counters.length == 0) return;
+
+		if (this.model.empty || this.model.querymode)
+		{
+			counters.forEach((counter) => counter.show(null,null));
+			return;
+		}
+
+		let hits:number = this.model.wrapper.hits;
+
+		// Only count when a counter is shown
+		if (hits == null && !this.model.wrapper.counted)
+		{
+			this.model.getQueryHits().then(() => this.showRecordCounters()).
+			catch((error) => Messages.handle(MSGGRP.FRAMEWORK,error,Level.severe));
+		}
+
+		counters.forEach((counter) => counter.show(this.model.record+1,hits));
+	}
+
+	public async showSummaries() : Promise<void>
+	{
+		let summaries:Summary[] = this.form.getSummaries(this.name);
+		if (summaries.length == 0) return;
+
+		let run:object = {};
+		this.summarizing$ = run;
+
+		let values:any[] = await this.model.aggregate(summaries.map((summary) =>
+			({column: summary.column, function: summary.function})));
+
+		// A newer request is running
+		if (this.summarizing$ != run)
+			return;
+
+		this.summarizing$ = null;
+		summaries.forEach((summary,i) => summary.show(values ? values[i] : null));
+	}
+
 	public setFilterIndicators(indicators:FilterIndicator[], flag:boolean) : void
 	{
 		indicators?.forEach((ind) =>
@@ -33,6 +33,7 @@ import { Logger, Type } from '../application/Logger.js';
 import { Block as ModelBlock } from '../model/Block.js';
 import { ListOfValues } from '../public/ListOfValues.js';
 import { Form as InterfaceForm } from '../public/Form.js';
+import { Summary } from '../application/tags/Summary.js';
 import { FieldInstance } from './fields/FieldInstance.js';
 import { EventType } from '../control/events/EventType.js';
 import { FormBacking } from '../application/FormBacking.js';
@@ -45,6 +46,7 @@ import { BrowserEvent } from '../control/events/BrowserEvent.js';
 import { KeyMap, KeyMapping } from '../control/events/KeyMap.js';
 import { FlightRecorder } from '../application/FlightRecorder.js';
 import { RowIndicator } from '../application/tags/RowIndicator.js';
+import { RecordCounter } from '../application/tags/RecordCounter.js';
 import { FormEvent, FormEvents } from '../control/events/FormEvents.js';
 import { MouseMap, MouseMapParser } from '../control/events/MouseMap.js';
 import { FilterIndicator } from '../application/tags/FilterIndicator.js';
@@ -71,6 +73,8 @@ export class Form implements EventListenerObject
 	private blocks$:Map<string,Block> = new Map<string,Block>();
 	private indicators:Map<string,RowIndicator[]> = new Map<string,RowIndicator[]>();
 	private fltindicators:Map<string,FilterIndicator[]> = new Map<string,FilterIndicator[]>();
+	private summaries:Map<string,Summary[]> = new Map<string,Summary[]>();
+	private counters:Map<string,RecordCounter[]> = new Map<string,RecordCounter[]>();
 
 	constructor(parent:InterfaceForm)
 	{
@@ -207,6 +211,48 @@ export class Form implements EventListenerObject
 		fltindicators.push(ind);
 	}
 
+	public getRecordCounters(block:string) : RecordCounter[]
+	{
+		let counters:RecordCounter[] = this.counters.get(block);
+		if (counters == null) return([]);
+		return(counters);
+	}
+
+	public addRecordCounter(counter:RecordCounter) : void
+	{
+		let block:string = counter.binding.toLowerCase();
+		let counters:RecordCounter[] = this.counters.get(block);
+
+		if (counters == null)
+		{
+			counters = [];
+			this.counters.set(block,counters);
+		}
+
+		counters.push(counter);
+	}
+
+	public getSummaries(block:string) : Summary[]
+	{
+		let summaries:Summary[] = this.summaries.get(block);
+		if (summaries == null) return([]);
+		return(summaries);
+	}
+
+	public addSummary(summary:Summary) : void
+	{
+		let block:string = summary.binding.toLowerCase();
+		let summaries:Summary[] = this.summaries.get(block);
+
+		if (summaries == null)
+		{
+			summaries = [];
+			this.summaries.set(block,summaries);
+		}
+
+		summaries.push(summary);
+	}
+
 	public skip() : void
 	{
 		this.current?.skip();
@@ -668,6 +714,9 @@ export class Form implements EventListenerObject
 			return(true);
 		}
 
+		if (key == KeyMap.cancelquery)
+			return(FormBacking.cancelQuery());
+
 		if (inst == null)
 		{
 			if (key == KeyMap.lov)